@@ -1,36 +1,98 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import MapView from './components/MapView';
-import { buildThreePlans, parseDateNormalized } from './services/locationService';
-import { TripFormState, PlannerResult, TripPlan } from './types';
+import RateCardEditor from './components/RateCardEditor';
+import PoiProviderSettings from './components/PoiProviderSettings';
+import LlmSettings from './components/LlmSettings';
+import LocationPicker from './components/LocationPicker';
+import FocusSelect from './components/FocusSelect';
+import ProgressSteps from './components/ProgressSteps';
+import PlanMatrix from './components/PlanMatrix';
+import PlanComparison from './components/PlanComparison';
+import PlanLibrary from './components/PlanLibrary';
+import { buildPlans, parseDateNormalized } from './services/locationService';
+import { planToIcs } from './services/icsExport';
+import { parseBudget } from './services/budgetService';
+import { upgradePlan, withSchemaVersion } from './services/planSchema';
+import { isAbortError } from './services/progress';
+import { savePlanToLibrary, saveSessionToLibrary } from './services/libraryService';
+import { SharePayload, createShareLink, readShareLink, shareFragment } from './services/shareLinks';
+import { clearFormDraft, exportProject, isProjectFile, loadFormDraft, normalizeSession, parseProject, saveFormDraft, sessionHeadline } from './services/sessionService';
+import { PlanFilter, VARIATION_AXES, clampPlanCount, planMatchesFilter } from './services/planVariants';
+import { TripFormState, PlannerResult, PlanningSession, TripPlan, ProgressEvent, VariationAxis, TransportMode, GeoLocation, FocusTag, LocationResolution } from './types';
+import { TRANSPORT_MODE_LABELS, MAX_PLAN_COUNT, VARIATION_AXIS_LABELS, BLOCK_KIND_ICONS, MAX_SHARE_URL_LENGTH } from './constants';
 
 declare const html2pdf: any;
 
+function downloadFile(filename: string, content: string, type = "application/json") {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// Starting values of the form; an autosaved draft replaces them on load
+const DEFAULT_FORM: TripFormState = {
+  origin: '',
+  destinations: [''], 
+  destination_geos: [null],
+  scope: 'regional',
+  trip_type: 'Multi-day excursion',
+  grade_level: '9',
+  num_students: 14,
+  teachers: 'Anes Memić, Victoria Bartz',
+  transport_pref: 'bus',
+  leg_modes: ['bus'],
+  return_mode: 'bus',
+  optimize_order: false,
+  lock_first: false,
+  lock_last: false,
+  dep_date: '2025-09-21', 
+  ret_date: '2025-09-25', 
+  return_by: '20:00',
+  budget: '',
+  focus: ['history', 'leisure'],
+  notes: '',
+  plan_count: 3,
+  vary: ['destination', 'tier']
+};
+
 function App() {
-  const [form, setForm] = useState<TripFormState>({
-    origin: '',
-    destinations: [''], 
-    scope: 'regional',
-    trip_type: 'Multi-day excursion',
-    grade_level: '9',
-    num_students: 14,
-    teachers: 'Anes Memić, Victoria Bartz',
-    transport_pref: 'bus',
-    dep_date: '2025-09-21', 
-    ret_date: '2025-09-25', 
-    budget: '',
-    focus: 'kulturno nasljeđe, obrazovanje, zabava',
-    notes: ''
-  });
+  const [form, setForm] = useState<TripFormState>(() => loadFormDraft(DEFAULT_FORM));
 
   const [loading, setLoading] = useState(false);
   const [mapLoadingId, setMapLoadingId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProgressEvent[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [result, setResult] = useState<PlannerResult | null>(null);
   const [focusedPlan, setFocusedPlan] = useState<number | null>(null);
+  const [planFilter, setPlanFilter] = useState<PlanFilter>({});
+  const [compareSet, setCompareSet] = useState<number[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [chosenPlan, setChosenPlan] = useState<number | null>(null); // Picked in the comparison; exports only this one
   const [focusedLocation, setFocusedLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [showRateCards, setShowRateCards] = useState(false);
+  const [showPoiSources, setShowPoiSources] = useState(false);
+  const [showLlmSettings, setShowLlmSettings] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const [readOnly, setReadOnly] = useState(false); // Showing a shared link; the form is hidden and not autosaved
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Autosave the form, so a refresh does not lose a half-filled one
+  useEffect(() => {
+    if (readOnly) return;
+    const timer = setTimeout(() => saveFormDraft(form), 500);
+    return () => clearTimeout(timer);
+  }, [form, readOnly]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setForm(prev => ({ ...prev, [name]: value }));
@@ -43,20 +105,56 @@ function App() {
     }
   };
 
+  const handleFocusChange = (focus: FocusTag[]) => {
+    setForm(prev => ({ ...prev, focus }));
+    if (validationErrors.focus) {
+      setValidationErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.focus;
+        return newErrors;
+      });
+    }
+  };
+
   const handleDestinationChange = (index: number, value: string) => {
     const newDestinations = [...form.destinations];
     newDestinations[index] = value;
-    setForm(prev => ({ ...prev, destinations: newDestinations }));
+    // Editing the text invalidates a pinned location
+    const newGeos = [...form.destination_geos];
+    newGeos[index] = null;
+    setForm(prev => ({ ...prev, destinations: newDestinations, destination_geos: newGeos }));
     if (value.trim() !== '' && form.scope === 'regional') {
-        setForm(prev => ({ ...prev, scope: 'specific', destinations: newDestinations }));
+        setForm(prev => ({ ...prev, scope: 'specific', destinations: newDestinations, destination_geos: newGeos }));
     }
     if (validationErrors.destinations) {
         setValidationErrors(prev => { const e = {...prev}; delete e.destinations; return e; });
     }
   };
 
+  const handleLegModeChange = (index: number, mode: TransportMode) => {
+    setForm(prev => {
+      const legModes = [...prev.leg_modes];
+      legModes[index] = mode;
+      return { ...prev, leg_modes: legModes };
+    });
+  };
+
+  const handlePinLocation = (index: number, geo: GeoLocation | null) => {
+    setForm(prev => {
+      const newGeos = [...prev.destination_geos];
+      newGeos[index] = geo;
+      return { ...prev, destination_geos: newGeos };
+    });
+    setPickerIndex(null);
+  };
+
   const addDestination = () => {
-    setForm(prev => ({ ...prev, destinations: [...prev.destinations, ''] }));
+    setForm(prev => ({
+      ...prev,
+      destinations: [...prev.destinations, ''],
+      destination_geos: [...prev.destination_geos, null],
+      leg_modes: [...prev.leg_modes, 'bus']
+    }));
   };
 
   const removeDestination = (index: number) => {
@@ -65,7 +163,10 @@ function App() {
         return;
     }
     const newDestinations = form.destinations.filter((_, i) => i !== index);
-    setForm(prev => ({ ...prev, destinations: newDestinations }));
+    const newLegModes = form.leg_modes.filter((_, i) => i !== index);
+    const newGeos = form.destination_geos.filter((_, i) => i !== index);
+    setForm(prev => ({ ...prev, destinations: newDestinations, leg_modes: newLegModes, destination_geos: newGeos }));
+    setPickerIndex(null);
   };
 
   const validateForm = (): boolean => {
@@ -76,8 +177,11 @@ function App() {
     }
     if (!form.grade_level.trim()) errors.grade_level = 'Grade level is required.';
     if (!form.teachers.trim()) errors.teachers = 'Accompanying teachers are required.';
-    if (!form.focus.trim()) errors.focus = 'Educational focus is required.';
+    if (form.focus.length === 0) errors.focus = 'Select at least one educational focus.';
     if (form.num_students < 1) errors.num_students = 'Number of students must be at least 1.';
+    if (form.budget.trim() && !parseBudget(form.budget)) {
+      errors.budget = 'Budget not recognised. Use e.g. "500 EUR" or "9000 KM ukupno".';
+    }
 
     const d1 = parseDateNormalized(form.dep_date);
     const d2 = parseDateNormalized(form.ret_date);
@@ -114,32 +218,54 @@ function App() {
       setError("Please fix the validation errors highlighted below.");
       return;
     }
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError(null);
+    setNotice(null);
+    setProgress([]);
+    setPlanFilter({});
     setFocusedPlan(null);
     setFocusedLocation(null);
     try {
-      const res = await buildThreePlans(form, forceTemplates);
+      const res = await buildPlans(form, forceTemplates, {
+        signal: controller.signal,
+        onProgress: event => setProgress(prev => {
+          const i = prev.findIndex(p => p.id === event.id);
+          return i === -1 ? [...prev, event] : prev.map((p, j) => j === i ? event : p);
+        })
+      });
       setResult(res);
+      setCompareSet([]);
+      setShowCompare(false);
+      setChosenPlan(null);
     } catch (err: any) {
-      setError(err.message || "Unknown error occurred");
+      if (isAbortError(err)) setNotice("Generation cancelled.");
+      else setError(err.message || "Unknown error occurred");
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
-  const handleSavePlan = (plan: TripPlan) => {
+  const handleCancel = () => abortRef.current?.abort();
+
+  const toggleVary = (axis: VariationAxis) => {
+    setForm(prev => ({
+      ...prev,
+      vary: prev.vary.includes(axis) ? prev.vary.filter(a => a !== axis) : VARIATION_AXES.filter(a => a === axis || prev.vary.includes(a))
+    }));
+  };
+
+  const handleSavePlan = async (plan: TripPlan) => {
     try {
-      const savedStr = localStorage.getItem('idss_saved_plans');
-      let savedPlans: TripPlan[] = savedStr ? JSON.parse(savedStr) : [];
-      const isDuplicate = savedPlans.some(p => p.title === plan.title && p.destination === plan.destination && p.distance_km === plan.distance_km);
-      if (isDuplicate) {
-        alert("This plan is already saved.");
+      const { existing } = await savePlanToLibrary(plan);
+      if (existing) {
+        alert("This plan is already in the library.");
         return;
       }
-      savedPlans.push(plan);
-      localStorage.setItem('idss_saved_plans', JSON.stringify(savedPlans));
-      alert("Plan saved to Browser Storage!");
+      setLibraryRevision(r => r + 1);
+      alert("Plan saved to the library!");
     } catch (e) {
       console.error("Error saving plan:", e);
       alert("Failed to save plan. Storage might be full.");
@@ -147,39 +273,141 @@ function App() {
   };
 
   const handleExportJson = (plan: TripPlan) => {
-    const dataStr = JSON.stringify(plan, null, 2);
-    const blob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `IDSS_Plan_${plan.destination.replace(/\s+/g, '_')}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(`IDSS_Plan_${plan.destination.replace(/\s+/g, '_')}.json`, JSON.stringify(withSchemaVersion(plan), null, 2));
   };
 
-  const handleLoadSavedPlans = () => {
+  const handleOpenFromLibrary = (plans: TripPlan[]) => {
+    setResult({ origin: null, plans });
+    setPlanFilter({});
+    setCompareSet([]);
+    setShowCompare(false);
+    setChosenPlan(null);
+    setFocusedPlan(null);
+    setFocusedLocation(null);
+    setError(null);
+  };
+
+  const currentSession = (): PlanningSession => ({
+    form,
+    result,
+    chosen_plan: chosenPlan,
+    focused_plan: focusedPlan,
+    plan_filter: planFilter,
+    compare_set: compareSet,
+    show_compare: showCompare
+  });
+
+  const applySession = (session: PlanningSession) => {
+    setForm(session.form);
+    setResult(session.result);
+    setPlanFilter(session.plan_filter);
+    setCompareSet(session.compare_set);
+    setShowCompare(session.show_compare);
+    setChosenPlan(session.chosen_plan);
+    setFocusedPlan(session.focused_plan);
+    setFocusedLocation(null);
+    setValidationErrors({});
+    setProgress([]);
+    setNotice(null);
+    setError(null);
+  };
+
+  const handleOpenSession = (saved: PlanningSession) => {
     try {
-      const savedStr = localStorage.getItem('idss_saved_plans');
-      if (!savedStr) {
-        alert("No plans found in Browser Storage.");
+      applySession(normalizeSession(saved, DEFAULT_FORM));
+    } catch (e: any) {
+      console.error("Error opening project:", e);
+      setError(`Failed to open project. ${e.message}`);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    const session = currentSession();
+    const headline = sessionHeadline(session);
+    if (!headline) return;
+    const name = prompt("Name for this project:", headline.destination);
+    if (!name?.trim()) return;
+    try {
+      await saveSessionToLibrary(session, name.trim());
+      setLibraryRevision(r => r + 1);
+      alert("Project saved to the library!");
+    } catch (e) {
+      console.error("Error saving project:", e);
+      alert("Failed to save project. Storage might be full.");
+    }
+  };
+
+  const handleExportProject = () => {
+    downloadFile(`IDSS_Project_${new Date().toISOString().slice(0, 10)}.json`, exportProject(currentSession()));
+  };
+
+  const handleShare = async (payload: SharePayload, downloadInstead: () => void) => {
+    try {
+      const link = await createShareLink(payload);
+      if (link.too_large) {
+        if (confirm(`This is too large for a share link (${link.url.length} characters; mail and chat apps cut links off beyond about ${MAX_SHARE_URL_LENGTH}).\n\nDownload it as a file to send instead?`)) downloadInstead();
         return;
       }
-      const savedPlans: TripPlan[] = JSON.parse(savedStr);
-      if (savedPlans.length === 0) {
-        alert("No plans found in Browser Storage.");
-        return;
+      try {
+        await navigator.clipboard.writeText(link.url);
+        alert("Share link copied. Whoever opens it sees a read-only copy.");
+      } catch {
+        prompt("Copy this share link:", link.url);
       }
-      setResult({ origin: null, plans: savedPlans });
-      setFocusedPlan(null);
-      setFocusedLocation(null);
-      setError(null);
     } catch (e) {
-      console.error("Error loading plans:", e);
-      setError("Failed to load saved plans.");
+      console.error("Error creating share link:", e);
+      alert("Could not create a share link.");
     }
   };
 
+  // Day 1 is the plan's own departure date; plans saved before it was recorded use the form's
+  const handleExportIcs = (plan: TripPlan) => {
+    const dep = parseDateNormalized(plan.dep_date || form.dep_date);
+    if (!dep) {
+      alert("Set a departure date in the form to export this plan to a calendar.");
+      return;
+    }
+    downloadFile(`IDSS_Plan_${plan.destination.replace(/\s+/g, '_')}.ics`, planToIcs(plan, dep), "text/calendar");
+  };
+
+  const handleSharePlan = (plan: TripPlan) => handleShare({ kind: 'plan', plan }, () => handleExportJson(plan));
+
+  const handleShareProject = () => handleShare({ kind: 'session', session: currentSession() }, handleExportProject);
+
+  const handleExitSharedView = () => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setReadOnly(false);
+    applySession({ form: loadFormDraft(DEFAULT_FORM), result: null, chosen_plan: null, focused_plan: null, plan_filter: {}, compare_set: [], show_compare: false });
+  };
+
+  // Open share links, both on page load and when one is pasted into the address bar of an open tab
+  useEffect(() => {
+    const openSharedLink = () => {
+      const encoded = shareFragment(window.location.hash);
+      if (!encoded) return;
+      readShareLink(encoded, DEFAULT_FORM)
+        .then(payload => {
+          setReadOnly(true);
+          if (payload.kind === 'session') applySession(payload.session);
+          else handleOpenFromLibrary([payload.plan]);
+        })
+        .catch(e => {
+          console.error("Error opening share link:", e);
+          setError(`This share link could not be opened. ${e.message}`);
+        });
+    };
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
+
+  const handleResetForm = () => {
+    if (!confirm("Reset the form to its defaults? Generated plans stay on screen.")) return;
+    clearFormDraft();
+    setForm(DEFAULT_FORM);
+    setValidationErrors({});
+  };
+
   const handleFileLoadClick = () => {
     if (fileInputRef.current) {
         fileInputRef.current.click();
@@ -194,18 +422,26 @@ function App() {
     reader.onload = (e) => {
         try {
             const content = e.target?.result as string;
-            const plan = JSON.parse(content);
-            // Basic validation
-            if (!plan.itinerary || !plan.cost_breakdown) {
-                throw new Error("Invalid plan file format");
+            const data = JSON.parse(content);
+            if (isProjectFile(data)) {
+                applySession(parseProject(data, DEFAULT_FORM));
+                alert("Project loaded from file successfully!");
+                return;
             }
+            const plan = upgradePlan(data);
             setResult({ origin: null, plans: [plan] });
+            setPlanFilter({});
+            setCompareSet([]);
+            setShowCompare(false);
+            setChosenPlan(null);
             setFocusedPlan(null);
             setError(null);
             alert("Plan loaded from file successfully!");
         } catch (err) {
             console.error("Error parsing file", err);
-            alert("Failed to load plan. Invalid file format.");
+            alert(err instanceof SyntaxError
+              ? "Failed to load file. It is not valid JSON."
+              : `Failed to load file. ${(err as Error).message}`);
         }
     };
     reader.readAsText(file);
@@ -214,7 +450,8 @@ function App() {
   };
 
   const handleExportPDF = () => {
-    const element = document.getElementById('export-container');
+    const chosen = chosenPlan !== null ? result?.plans[chosenPlan] : undefined;
+    const element = document.getElementById(chosen ? `plan-card-${chosenPlan}` : 'export-container');
     if (typeof html2pdf === 'undefined') {
       alert("PDF library is not loaded. Please check your internet connection.");
       return;
@@ -222,7 +459,7 @@ function App() {
     if (!element) return;
     const opt = {
       margin: 10,
-      filename: 'IDSS_field_trip_plans.pdf',
+      filename: chosen ? `IDSS_${chosen.destination.replace(/[^\w-]+/g, '_')}.pdf` : 'IDSS_field_trip_plans.pdf',
       image: { type: 'jpeg', quality: 0.98 },
       html2canvas: { scale: 1.4 },
       jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
@@ -242,6 +479,16 @@ function App() {
     }, 400);
   }, []);
 
+  const toggleCompare = useCallback((index: number) => {
+    setCompareSet(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  }, []);
+
+  // Memoised so the comparison's mini-maps only refit when the selection changes
+  const comparedPlans = useMemo(
+    () => (result ? compareSet.filter(i => result.plans[i]).map(i => ({ plan: result.plans[i], index: i })) : []),
+    [result, compareSet]
+  );
+
   const handleShowPoiOnMap = useCallback((lat: number, lng: number) => {
     setFocusedLocation({ lat, lng });
     const element = document.getElementById('leaflet-map-container');
@@ -257,11 +504,21 @@ function App() {
           <img src="https://i.postimg.cc/zGfMdQfF/IDSS_Logo.png" alt="IDSS Logo" className="w-16 h-16 object-contain" />
           <div>
             <h1 className="text-2xl md:text-3xl font-extrabold text-slate-900">IDSS — Superior Field Trip Planner</h1>
-            <p className="text-sm text-slate-500">Generates 3 verified plans & full cost estimates across multiple countries.</p>
+            <p className="text-sm text-slate-500">Generates verified alternative plans & full cost estimates across multiple countries.</p>
           </div>
         </div>
 
-        <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 mb-8 shadow-sm no-print">
+        {readOnly && (
+          <div className="mb-6 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800 flex flex-wrap items-center gap-3 print:hidden">
+            <span><span className="font-bold">Shared with you — read-only.</span> Save a plan to keep your own copy in the library.</span>
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => window.print()} className="px-2 py-1 rounded bg-white text-blue-700 border border-blue-200 text-xs font-bold hover:bg-blue-100">Print</button>
+              <button onClick={handleExitSharedView} className="px-2 py-1 rounded bg-blue-600 text-white text-xs font-bold hover:bg-blue-700">Open my planner</button>
+            </div>
+          </div>
+        )}
+
+        <div className={`bg-slate-50 border border-slate-200 rounded-xl p-6 mb-8 shadow-sm no-print ${readOnly ? 'hidden' : ''}`}>
           <h3 className="text-lg font-bold mb-4 text-slate-800">1. Unesite podatke za planiranje ekskurzije</h3>
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -275,20 +532,75 @@ function App() {
               </label>
               <div className="space-y-2">
                 {form.destinations.map((dest, index) => (
-                  <div key={index} className="flex gap-2">
-                    <input 
-                      value={dest} 
-                      onChange={(e) => handleDestinationChange(index, e.target.value)} 
-                      placeholder={`Stop ${index + 1} (npr. ${index === 0 ? 'Zagreb' : index === 1 ? 'Trieste' : 'Roma'})`} 
-                      className={`w-full p-2.5 rounded-lg border text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none ${validationErrors.destinations ? 'border-red-500' : 'border-slate-300'}`} 
-                      aria-label={`Destination Stop ${index + 1}`}
-                    />
-                    {form.destinations.length > 1 && (
-                      <button onClick={() => removeDestination(index)} className="px-3 text-slate-400 hover:text-red-500 border border-slate-200 rounded-lg bg-slate-50 font-bold" aria-label="Remove stop">×</button>
+                  <div key={index}>
+                    <div className="flex gap-2">
+                      <input 
+                        value={dest} 
+                        onChange={(e) => handleDestinationChange(index, e.target.value)} 
+                        placeholder={`Stop ${index + 1} (npr. ${index === 0 ? 'Zagreb' : index === 1 ? 'Trieste' : 'Roma'})`} 
+                        className={`w-full p-2.5 rounded-lg border text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none ${validationErrors.destinations ? 'border-red-500' : 'border-slate-300'}`} 
+                        aria-label={`Destination Stop ${index + 1}`}
+                      />
+                      {form.transport_pref === 'mixed' && (
+                        <ModeSelect
+                          value={form.leg_modes[index] || 'bus'}
+                          onChange={mode => handleLegModeChange(index, mode)}
+                          ariaLabel={`Transport to stop ${index + 1}`}
+                        />
+                      )}
+                      <button
+                        onClick={() => setPickerIndex(pickerIndex === index ? null : index)}
+                        disabled={!dest.trim()}
+                        className="px-3 text-slate-500 hover:text-blue-600 border border-slate-200 rounded-lg bg-slate-50 disabled:opacity-40"
+                        title="Choose the exact place"
+                        aria-label={`Choose location for stop ${index + 1}`}
+                      >
+                        🔍
+                      </button>
+                      {form.destinations.length > 1 && (
+                        <button onClick={() => removeDestination(index)} className="px-3 text-slate-400 hover:text-red-500 border border-slate-200 rounded-lg bg-slate-50 font-bold" aria-label="Remove stop">×</button>
+                      )}
+                    </div>
+                    {form.destination_geos[index] && (
+                      <div className="mt-1 text-[10px] text-emerald-700 flex items-center gap-2">
+                        <span>📌 {form.destination_geos[index]!.name}{form.destination_geos[index]!.country ? `, ${form.destination_geos[index]!.country}` : ''}</span>
+                        <button onClick={() => handlePinLocation(index, null)} className="text-slate-400 hover:text-red-500 underline">unpin</button>
+                      </div>
+                    )}
+                    {pickerIndex === index && dest.trim() && (
+                      <LocationPicker
+                        query={dest}
+                        selected={form.destination_geos[index] || null}
+                        onPick={geo => handlePinLocation(index, geo)}
+                        onClose={() => setPickerIndex(null)}
+                      />
                     )}
                   </div>
                 ))}
-                <button onClick={addDestination} className="text-xs text-blue-600 font-bold hover:underline">+ Add Stop</button>
+                {form.transport_pref === 'mixed' && (
+                  <div className="flex gap-2 items-center justify-end text-xs text-slate-500">
+                    <span>Return to origin by</span>
+                    <ModeSelect
+                      value={form.return_mode}
+                      onChange={mode => setForm(prev => ({ ...prev, return_mode: mode }))}
+                      ariaLabel="Transport for the return leg"
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-4">
+                  <button onClick={addDestination} className="text-xs text-blue-600 font-bold hover:underline">+ Add Stop</button>
+                  {form.destinations.length > 1 && (
+                    <>
+                      <Checkbox label="Optimise stop order" checked={form.optimize_order} onChange={v => setForm(prev => ({ ...prev, optimize_order: v }))} />
+                      {form.optimize_order && (
+                        <>
+                          <Checkbox label="Lock first stop" checked={form.lock_first} onChange={v => setForm(prev => ({ ...prev, lock_first: v }))} />
+                          <Checkbox label="Lock last stop" checked={form.lock_last} onChange={v => setForm(prev => ({ ...prev, lock_last: v }))} />
+                        </>
+                      )}
+                    </>
+                  )}
+                </div>
               </div>
               {validationErrors.destinations && <p className="text-red-500 text-[10px] mt-1 font-semibold">{validationErrors.destinations}</p>}
             </div>
@@ -338,13 +650,34 @@ function App() {
               <input type="date" name="ret_date" value={form.ret_date} onChange={handleChange} className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Return Date" />
             </InputGroup>
 
+            <InputGroup label="Povratak do (sat)">
+              <input type="time" name="return_by" value={form.return_by} onChange={handleChange} className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Home By" />
+            </InputGroup>
+
             <InputGroup label="Budžet (opcionalno)" error={validationErrors.budget}>
-              <input name="budget" value={form.budget} onChange={handleChange} placeholder="npr. 500 EUR" className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Budget" />
+              <input name="budget" value={form.budget} onChange={handleChange} placeholder="npr. 500 EUR po učeniku / 7000 EUR ukupno" className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Budget" />
+            </InputGroup>
+
+            <InputGroup label="Broj opcija">
+              <input type="number" min={1} max={MAX_PLAN_COUNT} value={form.plan_count} onChange={e => setForm(prev => ({ ...prev, plan_count: clampPlanCount(Number(e.target.value)) }))} className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Number of Alternatives" />
             </InputGroup>
 
+            <div className="md:col-span-2">
+              <InputGroup label="Opcije se razlikuju po">
+                <div className="flex flex-wrap gap-3 py-2 text-sm text-slate-700">
+                  {VARIATION_AXES.map(axis => (
+                    <label key={axis} className="flex items-center gap-1.5">
+                      <input type="checkbox" checked={form.vary.includes(axis)} onChange={() => toggleVary(axis)} />
+                      {VARIATION_AXIS_LABELS[axis]}
+                    </label>
+                  ))}
+                </div>
+              </InputGroup>
+            </div>
+
             <div className="md:col-span-3">
                <InputGroup label="Obrazovni fokus" error={validationErrors.focus}>
-                 <input name="focus" value={form.focus} onChange={handleChange} className="w-full p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none" aria-label="Educational Focus" />
+                 <FocusSelect value={form.focus} onChange={handleFocusChange} />
                </InputGroup>
             </div>
 
@@ -371,6 +704,11 @@ function App() {
               <strong>Error:</strong> {error}
             </div>
           )}
+          {notice && (
+            <div role="status" className="mb-4 p-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-lg text-sm">
+              {notice}
+            </div>
+          )}
 
           <div className="flex flex-wrap gap-3">
             <Button onClick={() => handleGenerate(false)} primary disabled={loading}>
@@ -378,13 +716,13 @@ function App() {
                 <div className="flex items-center gap-2">
                   <Spinner /> Generating...
                 </div>
-              ) : 'Generate 3 Plans (Live)'}
+              ) : `Generate ${form.plan_count} ${form.plan_count === 1 ? 'Plan' : 'Plans'} (Live)`}
             </Button>
             <Button onClick={() => handleGenerate(true)} disabled={loading}>
               {loading ? 'Processing...' : 'Generate Templates (Offline)'}
             </Button>
-            <Button onClick={handleLoadSavedPlans} disabled={loading}>
-              Load Browser Saves
+            <Button onClick={() => setShowLibrary(v => !v)} disabled={loading}>
+              Library
             </Button>
             
             {/* Hidden Input for File Loading */}
@@ -398,10 +736,22 @@ function App() {
             <Button onClick={handleFileLoadClick} disabled={loading}>
               Load from File
             </Button>
+            <Button onClick={handleSaveProject} disabled={loading || !result?.plans.length}>Save Project</Button>
+            <Button onClick={handleExportProject} disabled={loading}>Export Project</Button>
+            <Button onClick={handleShareProject} disabled={loading || !result?.plans.length}>Share Project</Button>
+            <Button onClick={handleResetForm} disabled={loading}>Reset Form</Button>
 
             <Button onClick={() => window.print()}>Print</Button>
             <Button onClick={handleExportPDF}>Download PDF</Button>
+            <Button onClick={() => setShowRateCards(v => !v)}>Rate Cards</Button>
+            <Button onClick={() => setShowPoiSources(v => !v)}>POI Sources</Button>
+            <Button onClick={() => setShowLlmSettings(v => !v)}>AI Model</Button>
           </div>
+          {(loading || progress.length > 0) && <ProgressSteps steps={progress} onCancel={loading ? handleCancel : undefined} />}
+          {showLibrary && <PlanLibrary onClose={() => setShowLibrary(false)} onOpen={handleOpenFromLibrary} onOpenSession={handleOpenSession} revision={libraryRevision} />}
+          {showRateCards && <RateCardEditor onClose={() => setShowRateCards(false)} />}
+          {showPoiSources && <PoiProviderSettings onClose={() => setShowPoiSources(false)} />}
+          {showLlmSettings && <LlmSettings onClose={() => setShowLlmSettings(false)} />}
           <p className="mt-3 text-xs text-slate-400">Napomena: aplikacija koristi GeoNames (geokodiranje), Wikidata (POI) i OpenRouteService (rute/POI).</p>
         </div>
 
@@ -428,21 +778,59 @@ function App() {
           )}
         </div>
 
+        {result && (
+          <PlanMatrix
+            plans={result.plans}
+            filter={planFilter}
+            onFilterChange={setPlanFilter}
+            focusedIndex={focusedPlan}
+            onSelect={handleMapPlanSelect}
+            compared={compareSet}
+            onToggleCompare={toggleCompare}
+            onCompare={() => setShowCompare(true)}
+          />
+        )}
+
+        {showCompare && comparedPlans.length >= 2 && (
+          <PlanComparison
+            plans={comparedPlans}
+            chosenIndex={chosenPlan}
+            onChoose={setChosenPlan}
+            onRemove={toggleCompare}
+            onClose={() => setShowCompare(false)}
+          />
+        )}
+
+        {result && chosenPlan !== null && result.plans[chosenPlan] && (
+          <div className="mb-6 p-3 rounded-lg bg-emerald-50 border border-emerald-200 text-sm text-emerald-800 flex flex-wrap items-center gap-3 print:hidden">
+            <span><span className="font-bold">Option {chosenPlan + 1}</span> is chosen — Print and Download PDF include only this plan.</span>
+            <button onClick={() => setChosenPlan(null)} className="ml-auto px-2 py-1 rounded bg-white text-emerald-700 border border-emerald-200 text-xs font-bold hover:bg-emerald-100">
+              Export all plans
+            </button>
+          </div>
+        )}
+
         {result && (
           <div className="grid gap-6">
-            {result.plans.map((plan, idx) => (
-              <PlanCard 
-                key={idx} 
-                id={`plan-card-${idx}`}
-                plan={plan} 
-                index={idx} 
-                onFocus={() => handleMapPlanSelect(idx)}
-                isFocused={focusedPlan === idx}
-                isLoading={mapLoadingId === idx}
-                onSave={handleSavePlan}
-                onExport={handleExportJson}
-                onShowPoi={handleShowPoiOnMap}
-              />
+            {result.plans.map((plan, idx) => (planMatchesFilter(plan, planFilter) || idx === chosenPlan) && (
+              <div key={idx} className={chosenPlan !== null && chosenPlan !== idx ? 'print:hidden' : ''}>
+                <PlanCard 
+                  id={`plan-card-${idx}`}
+                  plan={plan} 
+                  index={idx} 
+                  onFocus={() => handleMapPlanSelect(idx)}
+                  isFocused={focusedPlan === idx}
+                  isLoading={mapLoadingId === idx}
+                  onSave={handleSavePlan}
+                  onExport={handleExportJson}
+                  onShare={handleSharePlan}
+                  onExportIcs={handleExportIcs}
+                  onShowPoi={handleShowPoiOnMap}
+                  isCompared={compareSet.includes(idx)}
+                  onToggleCompare={() => toggleCompare(idx)}
+                  isChosen={chosenPlan === idx}
+                />
+              </div>
             ))}
           </div>
         )}
@@ -462,6 +850,13 @@ function App() {
   );
 }
 
+const SOURCE_RESOLUTION_LABELS: Record<LocationResolution, string> = {
+  provider: 'location from provider',
+  maps_uri: 'located via Maps link',
+  geocoded: 'located by geocoding',
+  unresolved: 'location unknown, not mapped'
+};
+
 const Spinner = () => (
   <svg className="animate-spin h-4 w-4 text-current" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -489,6 +884,26 @@ const InputGroup = ({ label, sub, error, children }: { label: string, sub?: stri
   </div>
 );
 
+const Checkbox = ({ label, checked, onChange }: { label: string, checked: boolean, onChange: (checked: boolean) => void }) => (
+  <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer select-none">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="rounded border-slate-300 text-blue-600 focus:ring-blue-500" />
+    {label}
+  </label>
+);
+
+const ModeSelect = ({ value, onChange, ariaLabel }: { value: TransportMode, onChange: (mode: TransportMode) => void, ariaLabel: string }) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value as TransportMode)}
+    className="p-2.5 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none"
+    aria-label={ariaLabel}
+  >
+    {(Object.keys(TRANSPORT_MODE_LABELS) as TransportMode[]).map(m => (
+      <option key={m} value={m}>{TRANSPORT_MODE_LABELS[m]}</option>
+    ))}
+  </select>
+);
+
 const Button = ({ children, primary, disabled, onClick }: { children: React.ReactNode, primary?: boolean, disabled?: boolean, onClick?: () => void }) => (
   <button
     onClick={onClick}
@@ -504,7 +919,7 @@ const Button = ({ children, primary, disabled, onClick }: { children: React.Reac
   </button>
 );
 
-const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onExport, onShowPoi }: { 
+const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onExport, onShare, onExportIcs, onShowPoi, isCompared, onToggleCompare, isChosen }: { 
     plan: TripPlan, 
     index: number, 
     onFocus: () => void, 
@@ -513,7 +928,12 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
     isLoading?: boolean, 
     onSave: (plan: TripPlan) => void,
     onExport: (plan: TripPlan) => void,
-    onShowPoi: (lat: number, lng: number) => void
+    onShare: (plan: TripPlan) => void,
+    onExportIcs: (plan: TripPlan) => void,
+    onShowPoi: (lat: number, lng: number) => void,
+    isCompared: boolean,
+    onToggleCompare: () => void,
+    isChosen: boolean
 }) => (
   <div 
     id={id} 
@@ -543,6 +963,32 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
         >
           Export
         </button>
+        <button 
+          onClick={() => onExportIcs(plan)}
+          className="text-xs px-3 py-1.5 rounded-md font-bold transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-500 print:hidden"
+          aria-label="Export itinerary to calendar"
+        >
+          Calendar (.ics)
+        </button>
+        <button 
+          onClick={() => onShare(plan)}
+          className="text-xs px-3 py-1.5 rounded-md font-bold transition-colors bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-500 print:hidden"
+          aria-label="Copy share link"
+        >
+          Copy Share Link
+        </button>
+        <button 
+          onClick={onToggleCompare}
+          className={`text-xs px-3 py-1.5 rounded-md font-bold transition-colors border focus:outline-none focus:ring-2 focus:ring-indigo-500 print:hidden
+            ${isCompared 
+              ? 'bg-indigo-600 text-white border-indigo-600' 
+              : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100 border-indigo-200'
+            }`}
+          aria-pressed={isCompared}
+          aria-label="Add plan to comparison"
+        >
+          {isCompared ? '✓ Compare' : 'Compare'}
+        </button>
         <button 
           onClick={onFocus} 
           disabled={isLoading}
@@ -559,6 +1005,9 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
         <span className="bg-blue-50 text-blue-700 px-2 py-1 rounded-lg text-xs font-bold">
           Reliability: {plan.reliability}%
         </span>
+        {isChosen && (
+          <span className="bg-emerald-600 text-white px-2 py-1 rounded-lg text-xs font-bold">✓ Chosen</span>
+        )}
       </div>
     </div>
 
@@ -570,35 +1019,79 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
           <span className="font-bold">Travel:</span> {plan.travel_time_h.toFixed(1)} h
         </div>
         
+        {plan.route_optimization && (
+          <div className="mb-3 p-2 rounded-lg bg-blue-50 border border-blue-100 text-xs text-blue-800">
+            <span className="font-bold">Optimised stop order:</span> {plan.route_optimization.optimized_order.join(' → ')}
+            <div className="mt-1 opacity-80">
+              {plan.route_optimization.saved_km > 0 || plan.route_optimization.saved_h > 0
+                ? `Saves ~${plan.route_optimization.saved_km} km / ${plan.route_optimization.saved_h} h vs typed order (${plan.route_optimization.typed_order.join(' → ')})`
+                : 'Typed order was already the shortest.'}
+              {plan.route_optimization.source === 'haversine' && ' — estimated from straight-line distances'}
+            </div>
+          </div>
+        )}
+
+        {plan.driver_compliance && (
+          <div className={`mb-3 p-2 rounded-lg border text-xs ${plan.driver_compliance.violations.length ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+            <span className="font-bold">Coach driver hours (EU 561/2006):</span>{' '}
+            {plan.driver_compliance.violations.length
+              ? `${plan.driver_compliance.violations.length} violation(s)`
+              : plan.driver_compliance.second_driver_required ? 'compliant with a second driver' : 'compliant'}
+            <ul className="mt-1 space-y-0.5">
+              {plan.driver_compliance.days.map(d => (
+                <li key={d.day}>
+                  Day {d.day}: {d.driving_h.toFixed(1)} h driving
+                  {d.breaks_required > 0 && `, ${d.breaks_required} × 45 min break`}
+                  {d.second_driver && ', 2 drivers'}
+                  {d.extended && ', 10 h extension'}
+                </li>
+              ))}
+              {plan.driver_compliance.violations.map((v, i) => <li key={`v${i}`} className="font-semibold">⚠ {v}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {plan.itinerary_warnings && plan.itinerary_warnings.length > 0 && (
+          <div className="mb-3 p-2 rounded-lg border text-xs bg-amber-50 border-amber-200 text-amber-800">
+            <span className="font-bold">Schedule check:</span> {plan.itinerary_warnings.length} issue(s) to review
+            <ul className="mt-1 space-y-0.5">
+              {plan.itinerary_warnings.map((w, i) => <li key={i}>⚠ {w}</li>)}
+            </ul>
+          </div>
+        )}
+
         <div className="mb-3">
           <strong className="block text-slate-700 mb-1">Itinerary:</strong>
-          <ol className="list-decimal list-inside space-y-1 text-slate-600 pl-2">
+          <div className="space-y-3">
             {plan.itinerary.map(d => (
-              <li key={d.day}>
-                <span className="font-semibold text-slate-800">Day {d.day}:</span> {d.activity}
-                {d.poi_name && (
-                  <button 
-                    onClick={() => {
-                        const source = plan.sources.find(s => 
-                            s.title.toLowerCase().includes(d.poi_name!.toLowerCase()) || 
-                            d.poi_name!.toLowerCase().includes(s.title.toLowerCase())
-                        );
-                        if (source && source.lat && source.lng) {
-                            onShowPoi(source.lat, source.lng);
-                        } else {
-                            alert("Coordinates for this specific location are not available.");
-                        }
-                    }}
-                    className="ml-2 text-[10px] text-blue-600 border border-blue-200 bg-blue-50 px-1.5 rounded hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    title="Show location on map"
-                    aria-label={`Show ${d.poi_name} on map`}
-                  >
-                    📍 Map
-                  </button>
-                )}
-              </li>
+              <div key={d.day}>
+                <span className="font-semibold text-slate-800">Day {d.day}</span>
+                <ol className="mt-1 border-l-2 border-blue-100 pl-3 space-y-1">
+                  {d.blocks.map((b, i) => (
+                    <li key={i} className="text-slate-600">
+                      <span className="font-mono text-[11px] text-slate-400 mr-2">{b.start}{b.end !== b.start && `–${b.end}`}</span>
+                      <span title={b.kind} className="mr-1">{BLOCK_KIND_ICONS[b.kind]}</span>
+                      {b.title}
+                      {b.location && !b.title.includes(b.location) && <span className="text-slate-400"> · {b.location}</span>}
+                      {b.cost_eur !== undefined && <span className="text-slate-400"> · {b.cost_eur} EUR</span>}
+                      {b.lat !== undefined && b.lng !== undefined && (
+                        <button
+                          onClick={() => onShowPoi(b.lat!, b.lng!)}
+                          className="ml-2 text-[10px] text-blue-600 border border-blue-200 bg-blue-50 px-1.5 rounded hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          title="Show location on map"
+                          aria-label={`Show ${b.location || b.title} on map`}
+                        >
+                          📍 Map
+                        </button>
+                      )}
+                      {b.notes && <span className="block text-[11px] text-slate-400 ml-16">{b.notes}</span>}
+                    </li>
+                  ))}
+                </ol>
+                {d.summary && <p className="text-[11px] text-slate-500 mt-1">{d.summary}</p>}
+              </div>
             ))}
-          </ol>
+          </div>
         </div>
 
         <div className="mb-3">
@@ -626,6 +1119,18 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
             <span>{plan.cost_breakdown.transport} EUR</span>
           </div>
           <div className="text-[10px] text-slate-400 pl-2 italic">{plan.cost_breakdown.transport_note}</div>
+          {plan.cost_breakdown.second_driver_note && (
+            <div className="text-[10px] text-slate-400 pl-2 italic">{plan.cost_breakdown.second_driver_note}</div>
+          )}
+          {plan.cost_breakdown.legs?.map((leg, i) => (
+            <div key={i} className="pl-2">
+              <div className="flex justify-between">
+                <span>{leg.from} → {leg.to} ({TRANSPORT_MODE_LABELS[leg.mode]}, {leg.duration_h.toFixed(1)} h):</span>
+                <span>{leg.cost} EUR</span>
+              </div>
+              <div className="text-[10px] text-slate-400 pl-2 italic">{leg.note}</div>
+            </div>
+          ))}
           
           <div className="flex justify-between">
             <span>Accommodation:</span>
@@ -653,7 +1158,7 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
                <span>{plan.cost_breakdown.local_transport} EUR</span>
             </div>
             <div className="flex justify-between pl-2">
-               <span>Contingency (5%):</span>
+               <span>Contingency:</span>
                <span>{plan.cost_breakdown.contingency} EUR</span>
             </div>
           </div>
@@ -662,7 +1167,33 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
             <span>Total Trip Cost:</span>
             <span>{plan.cost_breakdown.total} EUR</span>
           </div>
+          {plan.cost_breakdown.rate_card && (
+            <div className="text-[10px] text-slate-400 italic text-right">
+              Rates: {plan.cost_breakdown.rate_card.name} (v{plan.cost_breakdown.rate_card.version})
+            </div>
+          )}
         </div>
+
+        {plan.budget_status && (
+          <div className={`mt-3 p-3 rounded-lg border text-xs ${plan.budget_status.within_budget ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+            <div className="flex justify-between font-bold">
+              <span>{plan.budget_status.within_budget ? 'Within budget' : 'Over budget'}</span>
+              <span>
+                {plan.budget_status.delta_per_student > 0 ? '+' : ''}{plan.budget_status.delta_per_student} EUR / student
+              </span>
+            </div>
+            <div className="mt-1 opacity-80">
+              Limit: {plan.budget_status.limit_per_student} EUR / student
+              {plan.budget_status.scope === 'total' && ` (${plan.budget_status.limit_eur} EUR total)`}
+              &nbsp;•&nbsp; Difference: {plan.budget_status.delta_total > 0 ? '+' : ''}{plan.budget_status.delta_total} EUR total
+            </div>
+            {plan.budget_status.adjustments.length > 0 && (
+              <ul className="mt-2 list-disc list-inside space-y-0.5">
+                {plan.budget_status.adjustments.map((a, i) => <li key={i}>{a}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
     </div>
 
@@ -697,6 +1228,13 @@ const PlanCard = ({ plan, index, onFocus, isFocused, id, isLoading, onSave, onEx
               ) : (
                  <span className="text-[10px] text-slate-400 italic mt-1">Verified location</span>
               )}
+              {s.provenance && (
+                 <span className={`text-[10px] mt-1 ${s.provenance.resolution === 'unresolved' ? 'text-amber-600' : 'text-slate-400'}`}>
+                   {s.provenance.grounded ? 'Google Maps (Gemini)' : s.provenance.provider}
+                   {s.provenance.also_from?.length ? ` + ${s.provenance.also_from.join(', ')}` : ''}
+                   {' · '}{SOURCE_RESOLUTION_LABELS[s.provenance.resolution]}
+                 </span>
+              )}
             </div>
           ))}
         </div>
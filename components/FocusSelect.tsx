@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { FocusTag } from '../types';
+import { FOCUS_TAXONOMY, parseFocus, unmatchedFocusTerms } from '../services/focusTaxonomy';
+
+interface FocusSelectProps {
+  value: FocusTag[];
+  onChange: (tags: FocusTag[]) => void;
+}
+
+// Tag chips plus a free-text box that maps Bosnian/English/German terms onto the taxonomy
+const FocusSelect: React.FC<FocusSelectProps> = ({ value, onChange }) => {
+  const [text, setText] = useState('');
+  const [unmatched, setUnmatched] = useState<string | null>(null);
+
+  const toggle = (tag: FocusTag) => {
+    onChange(value.includes(tag) ? value.filter(t => t !== tag) : [...value, tag]);
+  };
+
+  const addFromText = () => {
+    if (!text.trim()) return;
+    const found = parseFocus(text);
+    const missed = unmatchedFocusTerms(text);
+    if (found.length > 0) onChange([...value, ...found.filter(t => !value.includes(t))]);
+    // Recognised terms become tags; the ones that are not stay in the box to be reworded
+    setText(missed.join(', '));
+    setUnmatched(missed.length ? missed.map(m => `"${m}"`).join(', ') : null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {FOCUS_TAXONOMY.map(c => {
+          const active = value.includes(c.id);
+          return (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => toggle(c.id)}
+              title={`${c.label.en} / ${c.label.de}`}
+              aria-pressed={active}
+              className={`text-xs px-3 py-1.5 rounded-full border font-semibold transition-colors ${active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:border-blue-400'}`}
+            >
+              {c.label.bs}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          value={text}
+          onChange={e => { setText(e.target.value); setUnmatched(null); }}
+          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addFromText(); } }}
+          placeholder="npr. arheologija, Naturwissenschaft, zoo"
+          className="flex-1 p-2 rounded-lg border border-slate-300 text-xs focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none"
+          aria-label="Add focus by keyword"
+        />
+        <button type="button" onClick={addFromText} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Dodaj</button>
+      </div>
+      {unmatched && <p className="text-[10px] text-amber-600 mt-1">{unmatched} did not match any focus category.</p>}
+    </div>
+  );
+};
+
+export default FocusSelect;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { GEMINI_KEY_DAILY_LIMIT } from '../constants';
+import { KeyHealth, keyPoolHealth, resetKeyPool } from '../services/geminiKeyPool';
+import { API_MODE, proxyUrl } from '../services/apiGateway';
+
+const STATE_STYLES: Record<KeyHealth['state'], string> = {
+  ready: 'bg-green-50 text-green-700 border-green-200',
+  cooling: 'bg-amber-50 text-amber-700 border-amber-200',
+  exhausted: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Behind the proxy the keys live on the server, which reports their health without revealing them
+async function proxyKeyHealth(): Promise<KeyHealth[]> {
+  const res = await fetch(proxyUrl('/health'));
+  if (!res.ok) throw new Error(`Proxy health ${res.status}`);
+  const j = await res.json();
+  return Array.isArray(j.gemini_keys) ? j.gemini_keys : [];
+}
+
+// Health of each configured Gemini key as seen from this browser, or from the proxy
+const KeyPoolDiagnostics: React.FC = () => {
+  const proxied = API_MODE === 'proxy';
+  const [health, setHealth] = useState<KeyHealth[] | null>(() => proxied ? null : keyPoolHealth());
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    if (!proxied) {
+      setHealth(keyPoolHealth());
+      return;
+    }
+    proxyKeyHealth()
+      .then(h => { setHealth(h); setError(null); })
+      .catch(e => setError(e.message || 'Proxy unreachable'));
+  };
+  const reset = () => {
+    resetKeyPool();
+    refresh();
+  };
+
+  useEffect(() => {
+    if (proxied) refresh();
+  }, []);
+
+  if (error) return <p className="text-xs text-amber-600">Could not read key health from the proxy: {error}</p>;
+  if (!health) return <p className="text-xs text-slate-400">Checking key health on the proxy…</p>;
+  if (health.length === 0) {
+    return <p className="text-xs text-amber-600">{proxied ? 'The proxy reports no Gemini keys (GEMINI_API_KEYS).' : 'No Gemini keys configured (VITE_GEMINI_API_KEYS).'}</p>;
+  }
+
+  const ready = health.filter(k => k.state === 'ready').length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center mb-2 gap-2">
+        <span className="text-xs font-semibold text-slate-600">Key pool{proxied && ' (proxy)'}: {ready} of {health.length} ready</span>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Refresh</button>
+          {!proxied && <button onClick={reset} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Reset stats</button>}
+        </div>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500 border-b border-slate-200">
+            <th className="py-1">Key</th>
+            <th>State</th>
+            <th>Today</th>
+            <th>Failures</th>
+            <th>Last error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {health.map(k => (
+            <tr key={k.id} className="border-b border-slate-100 align-top">
+              <td className="py-1.5 font-mono text-slate-700">{k.masked}</td>
+              <td>
+                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${STATE_STYLES[k.state]}`}>{k.state}</span>
+                {k.state === 'cooling' && <span className="block text-[10px] text-slate-400">until {formatTime(k.cooldown_until)}</span>}
+              </td>
+              <td>{k.uses_today} / {GEMINI_KEY_DAILY_LIMIT}</td>
+              <td>{k.failures} <span className="text-slate-400">({k.total_failures} total)</span></td>
+              <td className="text-slate-500 max-w-[16rem] break-words">
+                {k.last_error ? `${k.last_status ?? 'network'}: ${k.last_error}` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default KeyPoolDiagnostics;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import {
+  LLM_PROVIDER_LABELS,
+  LlmConfig,
+  LlmProviderId,
+  createLlmProvider,
+  defaultModel,
+  envLlmConfig,
+  loadLlmConfig,
+  resetLlmConfig,
+  saveLlmConfig
+} from '../services/llmConfig';
+import KeyPoolDiagnostics from './KeyPoolDiagnostics';
+
+interface LlmSettingsProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-1.5 rounded border border-slate-300 text-xs';
+
+const LlmSettings: React.FC<LlmSettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<LlmConfig>(() => loadLlmConfig());
+
+  const update = (change: Partial<LlmConfig>) => {
+    const next = { ...config, ...change };
+    setConfig(next);
+    saveLlmConfig(next);
+  };
+
+  const reset = () => {
+    resetLlmConfig();
+    setConfig(envLlmConfig());
+  };
+
+  const provider = createLlmProvider(config);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mt-4 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+        <h4 className="font-bold text-slate-800">AI Model</h4>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={reset} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Use build defaults</button>
+          <button onClick={onClose} className="text-xs px-3 py-1.5 rounded-md font-bold text-slate-500 hover:text-slate-800" aria-label="Close AI model settings">×</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs mb-3">
+        <label className="block">
+          <span className="block font-semibold text-slate-600 mb-1">Provider</span>
+          <select value={config.provider} onChange={e => update({ provider: e.target.value as LlmProviderId, model: '' })} className={inputClass}>
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>)}
+          </select>
+        </label>
+        {config.provider !== 'mock' && (
+          <label className="block">
+            <span className="block font-semibold text-slate-600 mb-1">Model</span>
+            <input value={config.model} onChange={e => update({ model: e.target.value })} placeholder={defaultModel(config.provider)} className={inputClass} />
+          </label>
+        )}
+        {config.provider === 'openai' && (
+          <>
+            <label className="block">
+              <span className="block font-semibold text-slate-600 mb-1">Server URL</span>
+              <input value={config.base_url} onChange={e => update({ base_url: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block font-semibold text-slate-600 mb-1">API key (optional)</span>
+              <input type="password" value={config.api_key} onChange={e => update({ api_key: e.target.value })} autoComplete="off" className={inputClass} />
+            </label>
+          </>
+        )}
+      </div>
+
+      <p className={`text-[10px] ${provider.available() ? 'text-slate-400' : 'text-amber-600'}`}>
+        {provider.available()
+          ? `Using ${provider.label}.${provider.grounded ? '' : ' Destination suggestions are not map-grounded and are geocoded afterwards.'}`
+          : `${provider.label} is not configured; plans fall back to the rule-based templates.`}
+      </p>
+
+      {config.provider === 'gemini' && (
+        <div className="mt-4 pt-3 border-t border-slate-100">
+          <KeyPoolDiagnostics />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmSettings;
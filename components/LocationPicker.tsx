@@ -0,0 +1,74 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import MiniMap from './MiniMap';
+import { GeoLocation } from '../types';
+import { geocodeCandidates } from '../services/locationService';
+
+interface LocationPickerProps {
+  query: string;
+  selected: GeoLocation | null;
+  onPick: (geo: GeoLocation) => void;
+  onClose: () => void;
+}
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ query, selected, onPick, onClose }) => {
+  const [candidates, setCandidates] = useState<GeoLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    geocodeCandidates(query, controller.signal).then(list => {
+      if (controller.signal.aborted) return;
+      setCandidates(list);
+      setLoading(false);
+    }, e => {
+      if (!controller.signal.aborted) console.warn('location candidates fail', e);
+    });
+    return () => controller.abort();
+  }, [query]);
+
+  const points = useMemo(() => candidates.map((c, i) => ({
+    lat: c.lat,
+    lng: c.lng,
+    label: c.name,
+    highlight: hovered === i || (selected !== null && selected.lat === c.lat && selected.lng === c.lng)
+  })), [candidates, hovered, selected]);
+
+  return (
+    <div className="mt-1 mb-2 p-3 bg-white border border-blue-200 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-bold text-slate-600">Matches for "{query}"</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 font-bold px-1" aria-label="Close location picker">×</button>
+      </div>
+      {loading ? (
+        <p className="text-xs text-slate-400">Searching…</p>
+      ) : candidates.length === 0 ? (
+        <p className="text-xs text-red-600">No matching places found.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-3">
+          <ul className="space-y-1">
+            {candidates.map((c, i) => (
+              <li key={`${c.lat},${c.lng},${i}`}>
+                <button
+                  onClick={() => onPick(c)}
+                  onMouseEnter={() => setHovered(i)}
+                  onMouseLeave={() => setHovered(null)}
+                  className="w-full text-left px-2 py-1.5 rounded-md text-xs hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <span className="font-semibold text-slate-800">{c.name}</span>
+                  <span className="block text-[10px] text-slate-500">
+                    {[c.admin_region, c.country].filter(Boolean).join(', ') || c.source}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <MiniMap points={points} onPointClick={i => onPick(candidates[i])} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
-import { GeoLocation, TripPlan } from '../types';
+import { PLAN_COLORS } from '../constants';
+import { GeoLocation, TransportMode, TripPlan } from '../types';
 
 declare global {
   interface Window {
@@ -16,6 +17,15 @@ interface MapViewProps {
   focusedLocation?: { lat: number; lng: number } | null;
 }
 
+// Road legs are solid; other modes get a dash pattern so mixed routes read at a glance
+const LEG_DASH: Record<TransportMode, string | undefined> = {
+  bus: undefined,
+  private_car: undefined,
+  train: '8 6',
+  ferry: '2 8',
+  plane: '12 10'
+};
+
 const MapView: React.FC<MapViewProps> = ({ origin, plans, focusedPlanIndex, onPlanSelect, isLoading, focusedLocation }) => {
   const mapRef = useRef<any>(null);
   const layerGroupRef = useRef<any>(null);
@@ -88,8 +98,6 @@ const MapView: React.FC<MapViewProps> = ({ origin, plans, focusedPlanIndex, onPl
     }
 
     // Draw Plans
-    const colors = ['#2563eb', '#16a34a', '#dc2626']; // blue, green, red
-    
     // Store lines to ensure focused one is brought to front at the end
     const drawnLines: { index: number, polyline: any }[] = [];
 
@@ -99,20 +107,28 @@ const MapView: React.FC<MapViewProps> = ({ origin, plans, focusedPlanIndex, onPl
         // Dim other lines if one is focused
         const isDimmed = hasFocusedPlan && !isFocused;
         
-        const color = colors[index % colors.length];
+        const color = PLAN_COLORS[index % PLAN_COLORS.length];
         const weight = isFocused ? 6 : 4;
         const opacity = isDimmed ? 0.3 : 0.8;
         const zIndexOffset = isFocused ? 1000 : 0;
 
-        // Polyline
-        const polyline = L.polyline(plan.polyline, { 
-          color, 
-          weight, 
-          opacity,
-          lineCap: 'round',
-          lineJoin: 'round',
-          className: 'cursor-pointer focus:outline-none' 
-        }).addTo(layers);
+        // Polyline, split per leg when the plan has leg geometry
+        const segments = plan.legs && plan.legs.length > 0
+          ? plan.legs.map(leg => ({ points: leg.polyline, dashArray: LEG_DASH[leg.mode], label: `${leg.from} → ${leg.to} (${leg.mode}, ${leg.duration_h.toFixed(1)} h)` }))
+          : [{ points: plan.polyline, dashArray: undefined, label: null }];
+        const polyline = L.featureGroup(segments.map(seg => {
+          const line = L.polyline(seg.points, { 
+            color, 
+            weight, 
+            opacity,
+            dashArray: seg.dashArray,
+            lineCap: 'round',
+            lineJoin: 'round',
+            className: 'cursor-pointer focus:outline-none' 
+          });
+          if (seg.label) line.bindTooltip(seg.label, { sticky: true });
+          return line;
+        })).addTo(layers);
 
         drawnLines.push({ index, polyline });
 
@@ -146,20 +162,22 @@ const MapView: React.FC<MapViewProps> = ({ origin, plans, focusedPlanIndex, onPl
           }
         });
         
-        // Destination Marker (simplification: draw last point)
-        const last = plan.polyline[plan.polyline.length - 1];
+        // Destination Marker: end of the last outbound leg (routes loop back to the origin)
+        const outbound = plan.legs && plan.legs.length > 1 ? plan.legs[plan.legs.length - 2].polyline : plan.polyline;
+        const last = outbound[outbound.length - 1];
         if (last) {
-          const markerSize = isFocused ? 16 : 12;
+          // Numbered like the options in the matrix
+          const markerSize = isFocused ? 22 : 18;
           const icon = L.divIcon({
             className: 'custom-icon',
-            html: `<div style="background:${color}; width:${markerSize}px; height:${markerSize}px; border:2px solid white; border-radius:50%; box-shadow: 0 2px 4px rgba(0,0,0,0.2);"></div>`,
+            html: `<div style="background:${color}; width:${markerSize}px; height:${markerSize}px; border:2px solid white; border-radius:50%; box-shadow: 0 2px 4px rgba(0,0,0,0.2); color:white; font:bold 10px/${markerSize - 4}px sans-serif; text-align:center;">${index + 1}</div>`,
             iconSize: [markerSize, markerSize],
             iconAnchor: [markerSize/2, markerSize/2]
           });
           
           const marker = L.marker(last, { icon, zIndexOffset }).addTo(layers);
           
-          marker.bindPopup(`<b>${plan.destination}</b><br/>${plan.title}<br/><span style="font-size:0.8em; color: #666">Click to select</span>`);
+          marker.bindPopup(`<b>${index + 1}. ${plan.destination}</b><br/>${plan.title}<br/><span style="font-size:0.8em; color: #666">Click to select</span>`);
           marker.on('click', () => {
             if (onPlanSelect) onPlanSelect(index);
           });
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface MiniMapPoint {
+  lat: number;
+  lng: number;
+  label: string;
+  highlight?: boolean;
+}
+
+export interface MiniMapView {
+  center: [number, number];
+  zoom: number;
+}
+
+interface MiniMapProps {
+  points: MiniMapPoint[];
+  lines?: { points: [number, number][]; color: string }[];
+  height?: number;
+  onPointClick?: (index: number) => void;
+  view?: MiniMapView | null; // Followed when set, so several maps can pan and zoom together
+  onViewChange?: (view: MiniMapView) => void; // Called when the user pans or zooms
+}
+
+// Small, self-contained Leaflet map; unlike MapView it can appear several times on a page
+const MiniMap: React.FC<MiniMapProps> = ({ points, lines = [], height = 180, onPointClick, view, onViewChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<any>(null);
+  const layerRef = useRef<any>(null);
+  const applyingView = useRef(false); // Moves we make ourselves are not reported back
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+
+  useEffect(() => {
+    const L = window.L;
+    if (!L || !containerRef.current) return;
+
+    if (!mapRef.current) {
+      mapRef.current = L.map(containerRef.current, { zoomControl: false, attributionControl: false }).setView([43.8563, 18.4131], 5);
+      L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', { maxZoom: 19 }).addTo(mapRef.current);
+      layerRef.current = L.layerGroup().addTo(mapRef.current);
+      mapRef.current.on('moveend', () => {
+        if (applyingView.current) {
+          applyingView.current = false;
+          return;
+        }
+        const c = mapRef.current.getCenter();
+        onViewChangeRef.current?.({ center: [c.lat, c.lng], zoom: mapRef.current.getZoom() });
+      });
+    }
+
+    const map = mapRef.current;
+    const layers = layerRef.current;
+    layers.clearLayers();
+    const bounds = L.latLngBounds([]);
+
+    lines.forEach(line => {
+      if (line.points.length === 0) return;
+      L.polyline(line.points, { color: line.color, weight: 3, opacity: 0.8 }).addTo(layers);
+      line.points.forEach(p => bounds.extend(p));
+    });
+
+    points.forEach((p, i) => {
+      const marker = L.circleMarker([p.lat, p.lng], {
+        radius: p.highlight ? 8 : 6,
+        color: p.highlight ? '#dc2626' : '#2563eb',
+        fillColor: '#fff',
+        fillOpacity: 1,
+        weight: p.highlight ? 3 : 2
+      }).addTo(layers).bindTooltip(p.label);
+      if (onPointClick) marker.on('click', () => onPointClick(i));
+      bounds.extend([p.lat, p.lng]);
+    });
+
+    setTimeout(() => map.invalidateSize(), 50);
+    if (bounds.isValid()) {
+      applyingView.current = true;
+      map.fitBounds(bounds, { padding: [20, 20], maxZoom: 10 });
+    }
+  }, [points, lines, onPointClick]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !view) return;
+    const c = map.getCenter();
+    if (map.getZoom() === view.zoom && Math.abs(c.lat - view.center[0]) < 1e-6 && Math.abs(c.lng - view.center[1]) < 1e-6) return;
+    applyingView.current = true;
+    map.setView(view.center, view.zoom, { animate: false });
+  }, [view]);
+
+  useEffect(() => () => {
+    if (mapRef.current) {
+      mapRef.current.remove();
+      mapRef.current = null;
+    }
+  }, []);
+
+  return <div ref={containerRef} className="w-full rounded-lg border border-slate-200 z-0" style={{ height }} />;
+};
+
+export default MiniMap;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { TripPlan } from '../types';
+import { BLOCK_KIND_ICONS } from '../constants';
+import MiniMap, { MiniMapPoint, MiniMapView } from './MiniMap';
+
+interface ComparedPlan {
+  plan: TripPlan;
+  index: number; // Position in the result, used for "Option N" and the callbacks
+}
+
+interface PlanComparisonProps {
+  plans: ComparedPlan[];
+  chosenIndex: number | null;
+  onChoose: (index: number) => void;
+  onRemove: (index: number) => void;
+  onClose: () => void;
+}
+
+interface CompareRow {
+  label: string;
+  unit?: string;
+  better?: 'lower' | 'higher'; // Rows without one are shown without deltas
+  value: (plan: TripPlan) => number | undefined;
+}
+
+const SUMMARY_ROWS: CompareRow[] = [
+  { label: 'Cost per student', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.per_student },
+  { label: 'Days', value: p => p.number_of_days },
+  { label: 'Distance', unit: 'km', better: 'lower', value: p => p.distance_km },
+  { label: 'Travel time', unit: 'h', better: 'lower', value: p => Math.round(p.travel_time_h * 10) / 10 },
+  { label: 'Reliability', unit: '%', better: 'higher', value: p => p.reliability },
+  { label: 'Schedule issues', better: 'lower', value: p => p.itinerary_warnings?.length || 0 }
+];
+
+const COST_ROWS: CompareRow[] = [
+  { label: 'Transport', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.transport },
+  { label: 'Second driver', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.second_driver },
+  { label: 'Accommodation', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.accommodation },
+  { label: 'Meals', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.meals },
+  { label: 'Entry fees', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.entry_fees },
+  { label: 'Activity fees', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.activity_fees },
+  { label: 'Local transport', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.local_transport },
+  { label: 'Contingency', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.contingency },
+  { label: 'Total trip cost', unit: 'EUR', better: 'lower', value: p => p.cost_breakdown.total }
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Markers at the end of every leg: the stops and, on the way back, the origin
+function routePoints(plan: TripPlan): MiniMapPoint[] {
+  return (plan.legs || [])
+    .filter(l => l.polyline.length > 0)
+    .map(l => {
+      const [lat, lng] = l.polyline[l.polyline.length - 1];
+      return { lat, lng, label: l.to };
+    });
+}
+
+// Two or more plans in columns: aligned figures with deltas to the best value, day-by-day rows and synced maps
+const PlanComparison: React.FC<PlanComparisonProps> = ({ plans, chosenIndex, onChoose, onRemove, onClose }) => {
+  const [view, setView] = useState<MiniMapView | null>(null);
+  const maps = useMemo(() => plans.map(({ plan }) => ({
+    points: routePoints(plan),
+    lines: plan.polyline.length ? [{ points: plan.polyline, color: '#2563eb' }] : []
+  })), [plans]);
+  const maxDays = Math.max(0, ...plans.map(({ plan }) => plan.itinerary.length));
+  const grid = { gridTemplateColumns: `150px repeat(${plans.length}, minmax(190px, 1fr))` };
+
+  const renderRow = (row: CompareRow, strong = false) => {
+    const values = plans.map(({ plan }) => row.value(plan));
+    if (values.every(v => v === undefined || v === 0) && row.label !== 'Schedule issues') return null;
+    const known = values.filter((v): v is number => v !== undefined);
+    const best = row.better === 'lower' ? Math.min(...known) : row.better === 'higher' ? Math.max(...known) : undefined;
+    const differs = new Set(known).size > 1;
+    return (
+      <div key={row.label} className={`grid gap-2 py-1 border-b border-slate-100 text-xs ${strong ? 'font-bold text-slate-800' : 'text-slate-600'}`} style={grid}>
+        <span className="text-slate-500">{row.label}</span>
+        {values.map((v, i) => {
+          const delta = v !== undefined && best !== undefined ? round2(v - best) : 0;
+          const isBest = differs && best !== undefined && v === best;
+          return (
+            <span key={i} className={`px-1 rounded ${isBest ? 'bg-green-50 text-green-800 font-semibold' : ''}`}>
+              {v === undefined ? '—' : `${round2(v)}${row.unit ? ` ${row.unit}` : ''}`}
+              {differs && delta !== 0 && (
+                <span className="ml-1 text-red-600">({delta > 0 ? '+' : ''}{delta})</span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mb-6 shadow-sm print:hidden">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-slate-800">Compare plans</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-lg leading-none" aria-label="Close comparison">×</button>
+      </div>
+      <div className="overflow-x-auto">
+        <div className="min-w-max">
+          <div className="grid gap-2 pb-2 border-b border-slate-200" style={grid}>
+            <span />
+            {plans.map(({ plan, index }) => (
+              <div key={index}>
+                <div className="flex items-start justify-between gap-1">
+                  <span className="font-bold text-sm text-slate-900">Option {index + 1}</span>
+                  <button onClick={() => onRemove(index)} className="text-slate-400 hover:text-slate-600 text-xs" aria-label={`Remove option ${index + 1} from comparison`}>×</button>
+                </div>
+                <p className="text-xs text-slate-500 mb-2">{plan.title}</p>
+                {chosenIndex === index ? (
+                  <span className="inline-block px-2 py-1 rounded bg-emerald-600 text-white text-xs font-bold">✓ Chosen for export</span>
+                ) : (
+                  <button onClick={() => onChoose(index)} className="px-2 py-1 rounded bg-emerald-100 text-emerald-700 border border-emerald-200 text-xs font-bold hover:bg-emerald-200">
+                    Pick this one
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-2 py-2" style={grid}>
+            <span className="text-xs text-slate-500">Route</span>
+            {plans.map(({ index }, i) => (
+              <MiniMap key={index} points={maps[i].points} lines={maps[i].lines} height={160} view={view} onViewChange={setView} />
+            ))}
+          </div>
+
+          <h4 className="mt-3 mb-1 text-xs font-bold uppercase text-slate-400">Summary</h4>
+          {SUMMARY_ROWS.map(row => renderRow(row, row.label === 'Cost per student'))}
+
+          <h4 className="mt-3 mb-1 text-xs font-bold uppercase text-slate-400">Cost breakdown</h4>
+          {COST_ROWS.map(row => renderRow(row, row.label === 'Total trip cost'))}
+
+          <h4 className="mt-3 mb-1 text-xs font-bold uppercase text-slate-400">Itinerary</h4>
+          {Array.from({ length: maxDays }, (_, d) => (
+            <div key={d} className="grid gap-2 py-1 border-b border-slate-100 text-xs" style={grid}>
+              <span className="text-slate-500 font-semibold">Day {d + 1}</span>
+              {plans.map(({ plan, index }) => {
+                const day = plan.itinerary[d];
+                return (
+                  <ol key={index} className="space-y-0.5 text-slate-600">
+                    {day ? day.blocks.map((b, i) => (
+                      <li key={i}>
+                        <span className="font-mono text-[10px] text-slate-400 mr-1">{b.start}</span>
+                        <span className="mr-1">{BLOCK_KIND_ICONS[b.kind]}</span>
+                        {b.title}
+                      </li>
+                    )) : <li className="text-slate-300">—</li>}
+                  </ol>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanComparison;
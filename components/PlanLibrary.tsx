@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { LIBRARY_STATUS_LABELS } from '../constants';
+import { LibraryStatus, PlanningSession, SavedPlanEntry, TripPlan } from '../types';
+import {
+  EMPTY_LIBRARY_QUERY,
+  LIBRARY_STATUSES,
+  LibraryQuery,
+  LibrarySort,
+  deleteLibraryEntry,
+  duplicateLibraryEntry,
+  libraryFacets,
+  loadLibrary,
+  parseTags,
+  queryLibrary,
+  storageUsage,
+  updateLibraryEntry
+} from '../services/libraryService';
+
+interface PlanLibraryProps {
+  onClose: () => void;
+  onOpen: (plans: TripPlan[]) => void;
+  onOpenSession: (session: PlanningSession) => void; // For saved projects, which restore the whole screen
+  revision: number; // Bumped by the parent after it saves a plan or project, so the list reloads
+}
+
+interface EntryDraft {
+  entry: SavedPlanEntry;
+  name: string;
+  school_year: string;
+  class_name: string;
+  author: string;
+  status: LibraryStatus;
+  tags: string; // Comma-separated while editing
+}
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  updated: 'Last changed',
+  name: 'Name',
+  cost: 'Cost per student',
+  days: 'Days'
+};
+
+const STATUS_CLASSES: Record<LibraryStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  proposed: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  archived: 'bg-slate-200 text-slate-500'
+};
+
+const inputClass = "w-full p-2 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none";
+const filterClass = "block mt-1 p-1.5 rounded border border-slate-300 text-xs";
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const PlanLibrary: React.FC<PlanLibraryProps> = ({ onClose, onOpen, onOpenSession, revision }) => {
+  const [entries, setEntries] = useState<SavedPlanEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [query, setQuery] = useState<LibraryQuery>(EMPTY_LIBRARY_QUERY);
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const reload = () => {
+    loadLibrary().then(list => {
+      setEntries(list);
+      setLoaded(true);
+    });
+    storageUsage().then(setUsage);
+  };
+
+  useEffect(reload, [revision]);
+
+  const updateQuery = (patch: Partial<LibraryQuery>) => setQuery(prev => ({ ...prev, ...patch }));
+  const visible = queryLibrary(entries, query);
+  const facets = libraryFacets(entries);
+  const usedShare = usage ? usage.usage / usage.quota : 0;
+
+  const startEdit = (entry: SavedPlanEntry) => setDraft({
+    entry,
+    name: entry.name,
+    school_year: entry.meta.school_year,
+    class_name: entry.meta.class_name,
+    author: entry.meta.author,
+    status: entry.meta.status,
+    tags: entry.meta.tags.join(', ')
+  });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setMessage('Name is required.');
+      return;
+    }
+    try {
+      await updateLibraryEntry(draft.entry, {
+        name: draft.name.trim(),
+        meta: {
+          school_year: draft.school_year.trim(),
+          class_name: draft.class_name.trim(),
+          author: draft.author.trim(),
+          status: draft.status,
+          tags: parseTags(draft.tags)
+        }
+      });
+      setDraft(null);
+      setMessage(`Saved "${draft.name.trim()}".`);
+      reload();
+    } catch (e) {
+      console.error("Error updating library entry", e);
+      setMessage('Could not save the changes. Storage might be full.');
+    }
+  };
+
+  const handleDuplicate = async (entry: SavedPlanEntry) => {
+    try {
+      const copy = await duplicateLibraryEntry(entry);
+      setMessage(`Created "${copy.name}".`);
+      reload();
+    } catch (e) {
+      console.error("Error duplicating library entry", e);
+      setMessage('Could not duplicate the plan. Storage might be full.');
+    }
+  };
+
+  const handleDelete = async (entry: SavedPlanEntry) => {
+    if (!confirm(`Delete "${entry.name}" from the library?`)) return;
+    await deleteLibraryEntry(entry.id);
+    if (draft?.entry.id === entry.id) setDraft(null);
+    reload();
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mt-4 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+        <h4 className="font-bold text-slate-800">Plan Library ({entries.length})</h4>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onOpen(visible.map(e => e.plan))}
+            disabled={visible.length === 0}
+            className="text-xs px-3 py-1.5 rounded-md font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Open shown ({visible.length})
+          </button>
+          <button onClick={onClose} className="text-xs px-3 py-1.5 rounded-md font-bold text-slate-500 hover:text-slate-800" aria-label="Close library">×</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-xs text-slate-500 flex-1 min-w-[180px]">Search
+          <input
+            value={query.text}
+            onChange={e => updateQuery({ text: e.target.value })}
+            placeholder="Name, destination, class, tag, activity…"
+            className={`${filterClass} w-full`}
+          />
+        </label>
+        <label className="text-xs text-slate-500">Status
+          <select value={query.status} onChange={e => updateQuery({ status: e.target.value as LibraryStatus | '' })} className={filterClass}>
+            <option value="">All</option>
+            {LIBRARY_STATUSES.map(s => <option key={s} value={s}>{LIBRARY_STATUS_LABELS[s]}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">School year
+          <select value={query.school_year} onChange={e => updateQuery({ school_year: e.target.value })} className={filterClass}>
+            <option value="">All</option>
+            {facets.school_years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">Tag
+          <select value={query.tag} onChange={e => updateQuery({ tag: e.target.value })} className={filterClass}>
+            <option value="">All</option>
+            {facets.tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">Sort by
+          <select value={query.sort} onChange={e => updateQuery({ sort: e.target.value as LibrarySort })} className={filterClass}>
+            {(Object.keys(SORT_LABELS) as LibrarySort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {message && <p className="text-xs text-slate-600 mb-3">{message}</p>}
+
+      {!loaded ? (
+        <p className="text-xs text-slate-400">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-slate-400">No saved plans yet. Use "Save" on a plan to keep it here.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs mb-2">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-1">Name</th>
+                <th>Class</th>
+                <th>Author</th>
+                <th>Status</th>
+                <th>Tags</th>
+                <th className="text-right">€ / student</th>
+                <th className="text-right">Days</th>
+                <th className="text-right">Changed</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.id} className="border-b border-slate-100 align-top">
+                  <td className="py-1.5 pr-2">
+                    <div className="font-semibold text-slate-700">
+                      {entry.name}
+                      {entry.session && (
+                        <span className="ml-1 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 font-normal">
+                          Project · {entry.session.result?.plans.length || 0} plans
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-slate-400">{entry.plan.destination}</div>
+                  </td>
+                  <td className="pr-2">{[entry.meta.class_name, entry.meta.school_year].filter(Boolean).join(' · ') || '—'}</td>
+                  <td className="pr-2">{entry.meta.author || '—'}</td>
+                  <td className="pr-2">
+                    <span className={`px-1.5 py-0.5 rounded font-semibold ${STATUS_CLASSES[entry.meta.status]}`}>{LIBRARY_STATUS_LABELS[entry.meta.status]}</span>
+                  </td>
+                  <td className="pr-2">
+                    {entry.meta.tags.map(t => (
+                      <button key={t} onClick={() => updateQuery({ tag: t })} className="mr-1 mb-0.5 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 hover:bg-blue-100">{t}</button>
+                    ))}
+                  </td>
+                  <td className="pr-2 text-right">{entry.plan.cost_breakdown.per_student}</td>
+                  <td className="pr-2 text-right">{entry.plan.number_of_days}</td>
+                  <td className="pr-2 text-right text-slate-400">{entry.updated_at.slice(0, 10)}</td>
+                  <td className="text-right space-x-2 whitespace-nowrap">
+                    <button onClick={() => entry.session ? onOpenSession(entry.session) : onOpen([entry.plan])} className="text-blue-600 hover:underline">Open</button>
+                    <button onClick={() => startEdit(entry)} className="text-blue-600 hover:underline">Edit</button>
+                    <button onClick={() => handleDuplicate(entry)} className="text-blue-600 hover:underline">Duplicate</button>
+                    <button onClick={() => handleDelete(entry)} className="text-red-500 hover:underline">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && <p className="text-xs text-slate-400">No saved plans match the search.</p>}
+        </div>
+      )}
+
+      {usage && (
+        <p className={`text-xs mt-2 ${usedShare > 0.8 ? 'text-amber-700 font-semibold' : 'text-slate-400'}`}>
+          Browser storage: {formatMb(usage.usage)} of {formatMb(usage.quota)} used ({(usedShare * 100).toFixed(1)}%)
+          {usedShare > 0.8 && ' — delete or export old plans to free space.'}
+        </p>
+      )}
+
+      {draft && (
+        <div className="border-t border-slate-200 pt-4 mt-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs font-semibold text-slate-500 md:col-span-3">Name
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">School year
+              <input value={draft.school_year} onChange={e => setDraft({ ...draft, school_year: e.target.value })} placeholder="2025/26" className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">Class
+              <input value={draft.class_name} onChange={e => setDraft({ ...draft, class_name: e.target.value })} placeholder="e.g. III-2" className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">Author
+              <input value={draft.author} onChange={e => setDraft({ ...draft, author: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">Status
+              <select value={draft.status} onChange={e => setDraft({ ...draft, status: e.target.value as LibraryStatus })} className={inputClass}>
+                {LIBRARY_STATUSES.map(s => <option key={s} value={s}>{LIBRARY_STATUS_LABELS[s]}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-semibold text-slate-500 md:col-span-2">Tags (comma-separated)
+              <input value={draft.tags} onChange={e => setDraft({ ...draft, tags: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button onClick={handleSave} className="text-xs px-3 py-1.5 rounded-md font-bold bg-emerald-100 text-emerald-700 hover:bg-emerald-200 border border-emerald-200">Save details</button>
+            <button onClick={() => setDraft(null)} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanLibrary;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { TripPlan, VariationAxis } from '../types';
+import { PLAN_COLORS, VARIATION_AXIS_LABELS } from '../constants';
+import { PlanFilter, matrixAxes, planMatchesFilter, variantValue } from '../services/planVariants';
+
+interface PlanMatrixProps {
+  plans: TripPlan[];
+  filter: PlanFilter;
+  onFilterChange: (filter: PlanFilter) => void;
+  focusedIndex: number | null;
+  onSelect: (index: number) => void;
+  compared: number[];
+  onToggleCompare: (index: number) => void;
+  onCompare: () => void;
+}
+
+// All generated alternatives as one table, filterable by every axis they differ on
+const PlanMatrix: React.FC<PlanMatrixProps> = ({ plans, filter, onFilterChange, focusedIndex, onSelect, compared, onToggleCompare, onCompare }) => {
+  const axes = matrixAxes(plans);
+  if (plans.length < 2) return null;
+
+  const valuesFor = (axis: VariationAxis) =>
+    Array.from(new Set(plans.filter(p => p.variant).map(p => variantValue(p.variant!, axis))));
+  const setAxis = (axis: VariationAxis, value: string) => {
+    const next = { ...filter };
+    if (value) next[axis] = value;
+    else delete next[axis];
+    onFilterChange(next);
+  };
+  const visible = plans.map((p, i) => ({ p, i })).filter(({ p }) => planMatchesFilter(p, filter));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mb-6 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <h3 className="font-bold text-slate-800 mr-auto">Alternatives ({visible.length} of {plans.length})</h3>
+        {axes.map(axis => (
+          <label key={axis} className="text-xs text-slate-500">
+            {VARIATION_AXIS_LABELS[axis]}
+            <select
+              value={filter[axis] || ''}
+              onChange={e => setAxis(axis, e.target.value)}
+              className="block mt-1 p-1.5 rounded border border-slate-300 text-xs"
+            >
+              <option value="">All</option>
+              {valuesFor(axis).map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </label>
+        ))}
+        {Object.keys(filter).length > 0 && (
+          <button onClick={() => onFilterChange({})} className="px-2 py-1 rounded bg-slate-100 text-slate-700 text-xs font-bold hover:bg-slate-200">
+            Clear filters
+          </button>
+        )}
+        <button
+          onClick={onCompare}
+          disabled={compared.length < 2}
+          title={compared.length < 2 ? 'Tick at least two plans to compare' : undefined}
+          className="px-2 py-1 rounded bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Compare ({compared.length})
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-1 pr-2" aria-label="Compare" />
+              <th className="py-1 pr-3">#</th>
+              {axes.map(axis => <th key={axis} className="py-1 pr-3">{VARIATION_AXIS_LABELS[axis]}</th>)}
+              <th className="py-1 pr-3 text-right">€ / student</th>
+              <th className="py-1 pr-3 text-right">Total €</th>
+              <th className="py-1 pr-3 text-right">km</th>
+              <th className="py-1 text-right">Checks</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ p, i }) => (
+              <tr
+                key={i}
+                onClick={() => onSelect(i)}
+                className={`border-b border-slate-100 cursor-pointer hover:bg-blue-50 ${focusedIndex === i ? 'bg-blue-50 font-semibold' : ''}`}
+              >
+                <td className="py-1 pr-2" onClick={e => e.stopPropagation()}>
+                  <input type="checkbox" checked={compared.includes(i)} onChange={() => onToggleCompare(i)} aria-label={`Compare option ${i + 1}`} />
+                </td>
+                <td className="py-1 pr-3 text-slate-400">
+                  <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ background: PLAN_COLORS[i % PLAN_COLORS.length] }} aria-hidden="true" />
+                  {i + 1}
+                </td>
+                {axes.map(axis => <td key={axis} className="py-1 pr-3">{p.variant ? variantValue(p.variant, axis) : '—'}</td>)}
+                <td className="py-1 pr-3 text-right">{p.cost_breakdown.per_student}</td>
+                <td className="py-1 pr-3 text-right">{p.cost_breakdown.total}</td>
+                <td className="py-1 pr-3 text-right">{Math.round(p.distance_km)}</td>
+                <td className="py-1 text-right">
+                  {p.budget_status && !p.budget_status.within_budget && <span title="Over budget">💸</span>}
+                  {p.itinerary_warnings?.length ? <span title={p.itinerary_warnings.join('\n')}>⚠️</span> : null}
+                  {!(p.budget_status && !p.budget_status.within_budget) && !p.itinerary_warnings?.length && <span className="text-green-600">✓</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PlanMatrix;
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import {
+  PoiProviderConfig,
+  getPoiProvider,
+  importCuratedVenues,
+  loadImportedVenues,
+  loadPoiProviderConfig,
+  savePoiProviderConfig
+} from '../services/poiProviders';
+
+interface PoiProviderSettingsProps {
+  onClose: () => void;
+}
+
+const PoiProviderSettings: React.FC<PoiProviderSettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<PoiProviderConfig[]>(() => loadPoiProviderConfig());
+  const [importedCount, setImportedCount] = useState(() => loadImportedVenues().length);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: PoiProviderConfig[]) => {
+    setConfig(next);
+    savePoiProviderConfig(next);
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= config.length) return;
+    const next = [...config];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const patch = (index: number, change: Partial<PoiProviderConfig>) => {
+    update(config.map((c, i) => i === index ? { ...c, ...change } : c));
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = importCuratedVenues(e.target?.result as string);
+        setImportedCount(loadImportedVenues().length);
+        setMessage(`Imported ${imported} venue(s).`);
+      } catch (err: any) {
+        console.error("Error importing curated venues", err);
+        setMessage(`Import failed: ${err.message || 'invalid file'}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mt-4 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+        <h4 className="font-bold text-slate-800">POI Sources</h4>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Import venues (GeoJSON)</button>
+          <input type="file" ref={fileInputRef} style={{ display: 'none' }} onChange={handleImport} accept=".json,.geojson" />
+          <button onClick={onClose} className="text-xs px-3 py-1.5 rounded-md font-bold text-slate-500 hover:text-slate-800" aria-label="Close POI sources">×</button>
+        </div>
+      </div>
+
+      {message && <p className="text-xs text-slate-600 mb-3">{message}</p>}
+
+      <table className="w-full text-xs mb-3">
+        <thead>
+          <tr className="text-left text-slate-500 border-b border-slate-200">
+            <th className="py-1">Order</th>
+            <th>Source</th>
+            <th>Enabled</th>
+            <th>Timeout (ms)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {config.map((c, i) => (
+            <tr key={c.id} className="border-b border-slate-100">
+              <td className="py-1.5 space-x-1">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="text-blue-600 disabled:opacity-30" aria-label="Move up">▲</button>
+                <button onClick={() => move(i, 1)} disabled={i === config.length - 1} className="text-blue-600 disabled:opacity-30" aria-label="Move down">▼</button>
+              </td>
+              <td className="font-semibold text-slate-700">{getPoiProvider(c.id)?.label || c.id}</td>
+              <td>
+                <input type="checkbox" checked={c.enabled} onChange={e => patch(i, { enabled: e.target.checked })} />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min={500}
+                  step={500}
+                  value={c.timeout_ms}
+                  onChange={e => patch(i, { timeout_ms: Math.max(500, parseInt(e.target.value, 10) || 0) })}
+                  className="w-24 p-1 rounded border border-slate-300 text-xs"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-[10px] text-slate-400">
+        Duplicates found by several sources are merged and ranked higher. {importedCount} imported curated venue(s) in this browser.
+      </p>
+    </div>
+  );
+};
+
+export default PoiProviderSettings;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ProgressEvent, ProgressStatus } from '../types';
+
+interface ProgressStepsProps {
+  steps: ProgressEvent[];
+  onCancel?: () => void;
+}
+
+const STATUS_ICONS: Record<ProgressStatus, string> = {
+  running: '⏳',
+  done: '✅',
+  failed: '⚠️',
+  cancelled: '⛔'
+};
+
+const STATUS_STYLES: Record<ProgressStatus, string> = {
+  running: 'text-blue-700 font-semibold',
+  done: 'text-slate-600',
+  failed: 'text-amber-700',
+  cancelled: 'text-slate-400 line-through'
+};
+
+// Live list of generation stages, newest at the bottom
+const ProgressSteps: React.FC<ProgressStepsProps> = ({ steps, onCancel }) => {
+  if (steps.length === 0 && !onCancel) return null;
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mt-4 shadow-sm" aria-live="polite">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-slate-800">Progress</h3>
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1 rounded bg-red-50 text-red-700 border border-red-200 text-xs font-bold hover:bg-red-100">
+            Cancel
+          </button>
+        )}
+      </div>
+      <ol className="space-y-1 text-sm max-h-64 overflow-y-auto">
+        {steps.map(s => (
+          <li key={s.id} className={`flex gap-2 ${STATUS_STYLES[s.status]}`}>
+            <span aria-label={s.status}>{STATUS_ICONS[s.status]}</span>
+            <span>
+              {s.label}
+              {s.detail && <span className="text-xs text-slate-400 font-normal"> — {s.detail}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ProgressSteps;
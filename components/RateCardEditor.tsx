@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { RATE_FIELD_LABELS, SEASON_MONTHS } from '../constants';
+import { RateCard, RateSet, Season } from '../types';
+import {
+  DEFAULT_RATE_CARD,
+  createRateCard,
+  deleteRateCard,
+  exportRateCards,
+  importRateCards,
+  invalidRates,
+  loadRateCards,
+  upsertRateCard
+} from '../services/rateCardService';
+
+interface RateCardEditorProps {
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-2 rounded-lg border border-slate-300 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-200 outline-none";
+
+const RateCardEditor: React.FC<RateCardEditorProps> = ({ onClose }) => {
+  const [cards, setCards] = useState<RateCard[]>(() => loadRateCards());
+  const [draft, setDraft] = useState<RateCard | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateDraft = (patch: Partial<RateCard>) => {
+    setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  };
+
+  const updateRate = (key: keyof RateSet, value: string) => {
+    setDraft(prev => prev ? { ...prev, rates: { ...prev.rates, [key]: Math.max(0, parseFloat(value) || 0) } } : prev);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setMessage('Rate card name is required.');
+      return;
+    }
+    if (!draft.valid_from) {
+      setMessage('"Valid from" is required.');
+      return;
+    }
+    if (draft.valid_to && draft.valid_to < draft.valid_from) {
+      setMessage('"Valid to" cannot be before "Valid from".');
+      return;
+    }
+    const invalid = invalidRates(draft.rates);
+    if (invalid.length > 0) {
+      setMessage(`Check ${invalid.map(key => RATE_FIELD_LABELS[key]).join(', ')}: seats must be a whole number of at least 1, shares between 0 and 1.`);
+      return;
+    }
+    const next = upsertRateCard(draft);
+    setCards(next);
+    setDraft(null);
+    setMessage(`Saved "${draft.name}".`);
+  };
+
+  const handleDelete = (card: RateCard) => {
+    if (!confirm(`Delete rate card "${card.name}"?`)) return;
+    setCards(deleteRateCard(card.id));
+    if (draft?.id === card.id) setDraft(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportRateCards(cards)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'IDSS_rate_cards.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { cards: next, imported } = importRateCards(e.target?.result as string);
+        setCards(next);
+        setMessage(`Imported ${imported} rate card(s).`);
+      } catch (err: any) {
+        console.error("Error importing rate cards", err);
+        setMessage(`Import failed: ${err.message || 'invalid file'}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 mt-4 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+        <h4 className="font-bold text-slate-800">Rate Cards</h4>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setDraft(createRateCard())} className="text-xs px-3 py-1.5 rounded-md font-bold bg-blue-600 text-white hover:bg-blue-700">+ New</button>
+          <button onClick={handleExport} disabled={cards.length === 0} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200 disabled:opacity-50">Export JSON</button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Import JSON</button>
+          <input type="file" ref={fileInputRef} style={{ display: 'none' }} onChange={handleImport} accept=".json" />
+          <button onClick={onClose} className="text-xs px-3 py-1.5 rounded-md font-bold text-slate-500 hover:text-slate-800" aria-label="Close rate cards">×</button>
+        </div>
+      </div>
+
+      {message && <p className="text-xs text-slate-600 mb-3">{message}</p>}
+
+      <table className="w-full text-xs mb-4">
+        <thead>
+          <tr className="text-left text-slate-500 border-b border-slate-200">
+            <th className="py-1">Name</th>
+            <th>Region</th>
+            <th>Season</th>
+            <th>Valid</th>
+            <th>Version</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {[DEFAULT_RATE_CARD, ...cards].map(card => (
+            <tr key={card.id} className="border-b border-slate-100">
+              <td className="py-1.5 font-semibold text-slate-700">{card.name}</td>
+              <td>{card.region === '*' ? 'All' : card.region}</td>
+              <td className="capitalize">{card.season}</td>
+              <td>{card.valid_from} → {card.valid_to || '…'}</td>
+              <td>v{card.version}</td>
+              <td className="text-right space-x-2">
+                {card.id === DEFAULT_RATE_CARD.id ? (
+                  <button onClick={() => setDraft(createRateCard(card))} className="text-blue-600 hover:underline">Copy</button>
+                ) : (
+                  <>
+                    <button onClick={() => setDraft({ ...card, rates: { ...card.rates } })} className="text-blue-600 hover:underline">Edit</button>
+                    <button onClick={() => setDraft(createRateCard(card))} className="text-blue-600 hover:underline">Copy</button>
+                    <button onClick={() => handleDelete(card)} className="text-red-500 hover:underline">Delete</button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {draft && (
+        <div className="border-t border-slate-200 pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+            <label className="text-xs font-semibold text-slate-500 md:col-span-2">Name
+              <input value={draft.name} onChange={e => updateDraft({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">Region (country code or name, * = all)
+              <input value={draft.region} onChange={e => updateDraft({ region: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs font-semibold text-slate-500">Season
+              <select value={draft.season} onChange={e => updateDraft({ season: e.target.value as Season })} className={inputClass}>
+                {(Object.keys(SEASON_MONTHS) as Season[]).map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs font-semibold text-slate-500">Valid from
+                <input type="date" value={draft.valid_from} onChange={e => updateDraft({ valid_from: e.target.value })} className={inputClass} />
+              </label>
+              <label className="text-xs font-semibold text-slate-500">Valid to
+                <input type="date" value={draft.valid_to || ''} onChange={e => updateDraft({ valid_to: e.target.value || null })} className={inputClass} />
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {(Object.keys(RATE_FIELD_LABELS) as (keyof RateSet)[]).map(key => (
+              <label key={key} className="text-xs font-semibold text-slate-500">{RATE_FIELD_LABELS[key]}
+                <input type="number" step="any" value={draft.rates[key]} onChange={e => updateRate(key, e.target.value)} className={inputClass} />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <button onClick={handleSave} className="text-xs px-3 py-1.5 rounded-md font-bold bg-emerald-100 text-emerald-700 hover:bg-emerald-200 border border-emerald-200">Save rate card</button>
+            <button onClick={() => setDraft(null)} className="text-xs px-3 py-1.5 rounded-md font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 border border-slate-200">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateCardEditor;
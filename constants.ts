@@ -1,24 +1,130 @@
+import { ItineraryBlockKind, LibraryStatus, RateSet, Season, TransportMode, VariationAxis } from './types';
+
 export const IDSS_COORDS = {
   lat: 43.8563,
   lng: 18.4131,
   label: "IDSS (Sarajevo)"
 };
 
-export const GEONAMES_USER = "idss";
-export const ORS_KEY = "eyJvcmciOiI1YjNjZTM1OTc4NTExMTAwMDFjZjYyNDgiLCJpZCI6IjU1YWNjZDFiNzIzZjQ1M2E4MjJmNjE3YjNhNDBiYzViIiwiaCI6Im11cm11cjY0In0=";
-export const OPENTRIPMAP_KEY = "5ae2e3f221c38a28845f05b66ce93174842c0991b346b5c388985154";
+// Only used in direct API mode; in proxy mode the build leaves them empty and the server holds them
+export const GEONAMES_USER = process.env.VITE_GEONAMES_USER || '';
+export const ORS_KEY = process.env.VITE_ORS_KEY || '';
+export const OPENTRIPMAP_KEY = process.env.VITE_OPENTRIPMAP_KEY || '';
 
-export const RATES = {
+// Default rate set, used when no saved rate card matches the trip
+export const RATES: RateSet = {
   bus_capacity: 50,
   bus_cost_per_km_per_bus: 1.1,
+  bus_local_km_per_day: 50,
   flight_per_person_avg: 150,
   train_per_person_avg: 60,
+  ferry_per_person_avg: 80,
+  car_cost_per_km: 0.30,
   accommodation_per_person_per_night_budget: 25,
   accommodation_per_person_per_night_balanced: 45,
   accommodation_per_person_per_night_premium: 80,
   meals_per_person_per_day: 15,
   entry_fee_per_student_avg: 7,
-  teacher_discount: 0.5
+  teacher_discount: 0.5,
+  local_transport_per_person_per_day: 5,
+  activity_fee_share: 0.2,
+  contingency_share: 0.05,
+  second_driver_per_day: 150
+};
+
+// Average speed and fixed overhead (check-in, boarding) for legs that do not follow the road network
+export const NON_ROAD_TIMING: Partial<Record<TransportMode, { speed_kmh: number; overhead_h: number }>> = {
+  plane: { speed_kmh: 700, overhead_h: 2.5 },
+  train: { speed_kmh: 70, overhead_h: 0.5 },
+  ferry: { speed_kmh: 30, overhead_h: 0.5 }
+};
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  bus: 'Bus',
+  plane: 'Plane',
+  train: 'Train',
+  ferry: 'Ferry',
+  private_car: 'Private Car'
+};
+
+export const BLOCK_KIND_ICONS: Record<ItineraryBlockKind, string> = {
+  travel: '🚌',
+  visit: '🏛️',
+  meal: '🍽️',
+  lodging: '🛏️',
+  free: '🎒'
+};
+
+export const VARIATION_AXIS_LABELS: Record<VariationAxis, string> = {
+  destination: 'Destination',
+  tier: 'Tier',
+  transport: 'Transport',
+  length: 'Trip length',
+  focus: 'Focus'
+};
+
+export const LIBRARY_STATUS_LABELS: Record<LibraryStatus, string> = {
+  draft: 'Draft',
+  proposed: 'Proposed',
+  approved: 'Approved',
+  archived: 'Archived'
+};
+
+export const RATE_FIELD_LABELS: Record<keyof RateSet, string> = {
+  bus_capacity: 'Bus capacity (seats)',
+  bus_cost_per_km_per_bus: 'Bus EUR/km per bus',
+  bus_local_km_per_day: 'Bus local km/day',
+  flight_per_person_avg: 'Flight EUR/person',
+  train_per_person_avg: 'Train EUR/person',
+  ferry_per_person_avg: 'Ferry EUR/person',
+  car_cost_per_km: 'Private car EUR/km',
+  accommodation_per_person_per_night_budget: 'Accommodation budget EUR/night',
+  accommodation_per_person_per_night_balanced: 'Accommodation balanced EUR/night',
+  accommodation_per_person_per_night_premium: 'Accommodation premium EUR/night',
+  meals_per_person_per_day: 'Meals EUR/person/day',
+  entry_fee_per_student_avg: 'Entry fee EUR/student',
+  teacher_discount: 'Teacher entry discount (0-1)',
+  local_transport_per_person_per_day: 'Local transport EUR/person/day',
+  activity_fee_share: 'Activity fees (share of entry)',
+  contingency_share: 'Contingency (share of total)',
+  second_driver_per_day: 'Second coach driver EUR/day'
+};
+
+export const SEASON_MONTHS: Record<Season, number[]> = {
+  all: [],
+  spring: [3, 4, 5],
+  summer: [6, 7, 8],
+  autumn: [9, 10, 11],
+  winter: [12, 1, 2]
+};
+
+// Approximate conversion to EUR, used when parsing the budget field
+export const CURRENCY_TO_EUR: Record<string, number> = {
+  EUR: 1,
+  BAM: 0.5113,
+  USD: 0.92,
+  GBP: 1.17,
+  CHF: 1.05,
+  RSD: 0.0085,
+  HUF: 0.0025
+};
+
+export const CURRENCY_ALIASES: Record<string, string> = {
+  '€': 'EUR',
+  'eur': 'EUR',
+  'euro': 'EUR',
+  'eura': 'EUR',
+  'km': 'BAM',
+  'bam': 'BAM',
+  '$': 'USD',
+  'usd': 'USD',
+  '£': 'GBP',
+  'gbp': 'GBP',
+  'chf': 'CHF',
+  'rsd': 'RSD',
+  'din': 'RSD',
+  'huf': 'HUF',
+  'ft': 'HUF'
 };
 
 export const SUGGESTED_CITIES: Record<string, string[]> = {
@@ -29,4 +135,21 @@ export const SUGGESTED_CITIES: Record<string, string[]> = {
   "Germany": ["Berlin", "Munich", "Hamburg"],
   "Italy": ["Venice", "Florence", "Rome"],
   "Hungary": ["Budapest", "Szeged", "Pecs"]
-};
\ No newline at end of file
+};
+// Extra LLM rounds when the itinerary validator finds problems; 0 disables re-prompting
+export const ITINERARY_REPROMPTS = 1;
+// Requests per Gemini key per day before the pool stops using it (free tier for gemini-2.5-flash)
+export const GEMINI_KEY_DAILY_LIMIT = 250;
+// External requests a plan generation may have in flight at once
+export const REQUEST_CONCURRENCY = 4;
+// How long an identical geocode, route or POI request is answered from memory
+export const REQUEST_CACHE_TTL_MS = 10 * 60 * 1000;
+// Upper bound on alternatives per generation; each one costs an LLM call
+export const MAX_PLAN_COUNT = 12;
+// One distinct colour per alternative on the map and in the matrix, so it has MAX_PLAN_COUNT entries
+export const PLAN_COLORS = [
+  '#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed', '#0891b2',
+  '#db2777', '#65a30d', '#475569', '#ea580c', '#4f46e5', '#0d9488'
+];
+// Longer share links get cut off by mail clients and chat apps; beyond this we offer a file
+export const MAX_SHARE_URL_LENGTH = 8000;
@@ -0,0 +1,318 @@
+// Key-holding proxy for the planner's third-party APIs.
+//
+//   ORS_KEY=... OPENTRIPMAP_KEY=... GEONAMES_USER=... GEMINI_API_KEYS=k1,k2 npm run proxy
+//
+// The browser build (VITE_API_MODE=proxy) calls /api/<service>/<path>; the proxy adds the
+// credential, rate limits each client, caches deterministic answers and never returns a key.
+
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+const env = process.env;
+const PORT = parseInt(env.PROXY_PORT || '8787', 10);
+const PREFIX = '/api';
+const ALLOWED_ORIGINS = (env.PROXY_ALLOWED_ORIGINS || 'http://localhost:5173,http://localhost:4173')
+  .split(',').map(o => o.trim()).filter(Boolean);
+const TRUST_FORWARDED = env.PROXY_TRUST_FORWARDED === '1'; // Behind a reverse proxy that sets X-Forwarded-For
+const MAX_BODY_BYTES = 1_000_000;
+const UPSTREAM_TIMEOUT_MS = 60_000;
+
+const GEMINI_KEYS = Array.from(new Set((env.GEMINI_API_KEYS || env.API_KEY || '').split(',').map(k => k.trim()).filter(Boolean)));
+
+/* ===========================
+   Services
+   =========================== */
+
+// `paths` is an allow-list so the proxy cannot be used to reach arbitrary endpoints with our keys
+const SERVICES = {
+  ors: {
+    upstream: 'https://api.openrouteservice.org',
+    paths: [/^\/geocode\/search$/, /^\/v2\/directions\/[\w-]+(\/geojson)?$/, /^\/v2\/matrix\/[\w-]+$/, /^\/pois$/],
+    enabled: () => !!env.ORS_KEY,
+    authorize: (url, headers) => { headers.authorization = env.ORS_KEY; },
+    cache_ttl_ms: 24 * 3600_000,
+    per_minute: 60
+  },
+  opentripmap: {
+    upstream: 'https://api.opentripmap.com/0.1',
+    paths: [/^\/\w{2}\/places\/(radius|bbox|xid\/[\w-]+)$/],
+    enabled: () => !!env.OPENTRIPMAP_KEY,
+    authorize: (url) => { url.searchParams.set('apikey', env.OPENTRIPMAP_KEY); },
+    cache_ttl_ms: 24 * 3600_000,
+    per_minute: 60
+  },
+  geonames: {
+    upstream: 'https://secure.geonames.org',
+    paths: [/^\/searchJSON$/],
+    enabled: () => !!env.GEONAMES_USER,
+    authorize: (url) => { url.searchParams.set('username', env.GEONAMES_USER); },
+    cache_ttl_ms: 7 * 24 * 3600_000,
+    per_minute: 60
+  },
+  gemini: {
+    upstream: 'https://generativelanguage.googleapis.com',
+    paths: [/^\/v1(beta)?\/models\/[\w.-]+:generateContent$/],
+    enabled: () => GEMINI_KEYS.length > 0,
+    authorize: (url, headers, key) => { headers['x-goog-api-key'] = key; },
+    cache_ttl_ms: 0, // Answers are not deterministic
+    per_minute: 10
+  }
+};
+
+/* ===========================
+   Per-client rate limiting (token bucket per client and service)
+   =========================== */
+
+const buckets = new Map();
+
+function takeToken(client, service) {
+  const limit = SERVICES[service].per_minute * (parseFloat(env.PROXY_RATE_MULTIPLIER || '1') || 1);
+  const key = `${client}|${service}`;
+  const now = Date.now();
+  const b = buckets.get(key) || { tokens: limit, at: now };
+  b.tokens = Math.min(limit, b.tokens + ((now - b.at) / 60_000) * limit);
+  b.at = now;
+  buckets.set(key, b);
+  if (b.tokens < 1) return Math.ceil(((1 - b.tokens) / limit) * 60);
+  b.tokens -= 1;
+  return 0;
+}
+
+setInterval(() => {
+  const cutoff = Date.now() - 10 * 60_000;
+  buckets.forEach((b, k) => { if (b.at < cutoff) buckets.delete(k); });
+}, 60_000).unref();
+
+/* ===========================
+   Response cache (LRU by insertion order, TTL per service)
+   =========================== */
+
+const CACHE_MAX = parseInt(env.PROXY_CACHE_ENTRIES || '1000', 10);
+const cache = new Map();
+
+function cacheGet(key) {
+  const hit = cache.get(key);
+  if (!hit) return null;
+  if (hit.expires < Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  cache.delete(key);
+  cache.set(key, hit);
+  return hit;
+}
+
+function cacheSet(key, entry) {
+  cache.set(key, entry);
+  while (cache.size > CACHE_MAX) cache.delete(cache.keys().next().value);
+}
+
+/* ===========================
+   Gemini key rotation
+   =========================== */
+
+const geminiStats = GEMINI_KEYS.map(() => ({ uses_today: 0, day: '', failures: 0, total_failures: 0, cooldown_until: 0 }));
+let geminiNext = 0;
+
+const mask = key => `…${key.slice(-4)}`;
+const today = () => new Date().toISOString().slice(0, 10);
+
+function geminiOrder() {
+  const now = Date.now();
+  const order = [];
+  for (let i = 0; i < GEMINI_KEYS.length; i++) {
+    const idx = (geminiNext + i) % GEMINI_KEYS.length;
+    if (geminiStats[idx].cooldown_until <= now) order.push(idx);
+  }
+  geminiNext = (geminiNext + 1) % Math.max(1, GEMINI_KEYS.length);
+  return order;
+}
+
+function recordGemini(idx, status) {
+  const s = geminiStats[idx];
+  if (s.day !== today()) {
+    s.day = today();
+    s.uses_today = 0;
+  }
+  s.uses_today += 1;
+  s.last_status = status;
+  if (status < 400) {
+    s.failures = 0;
+    return;
+  }
+  s.failures += 1;
+  s.total_failures += 1;
+  const cooldown = status === 429 ? Math.min(3600_000, 60_000 * 2 ** (s.failures - 1))
+    : status === 401 || status === 403 ? 24 * 3600_000
+    : 15_000;
+  s.cooldown_until = Date.now() + cooldown;
+}
+
+/* ===========================
+   HTTP
+   =========================== */
+
+function clientId(req) {
+  const forwarded = TRUST_FORWARDED ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+}
+
+function corsHeaders(req) {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return {};
+  return {
+    'access-control-allow-origin': origin,
+    'access-control-allow-methods': 'GET, POST, OPTIONS',
+    'access-control-allow-headers': 'content-type, x-goog-api-client, x-goog-api-key',
+    vary: 'origin'
+  };
+}
+
+// Requests without an Origin come from the same host (or from curl); foreign pages are refused
+function originAllowed(req) {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function send(res, status, body, headers = {}) {
+  const payload = typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(payload);
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', c => {
+      size += c.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+      } else {
+        chunks.push(c);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function forward(service, path, search, method, body, key) {
+  const def = SERVICES[service];
+  const url = new URL(def.upstream + path);
+  new URLSearchParams(search).forEach((v, k) => url.searchParams.set(k, v));
+  const headers = {};
+  if (body.length) headers['content-type'] = 'application/json';
+  def.authorize(url, headers, key);
+  const upstream = await fetch(url, {
+    method,
+    headers,
+    body: body.length ? body : undefined,
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+  });
+  return {
+    status: upstream.status,
+    content_type: upstream.headers.get('content-type') || 'application/json',
+    body: Buffer.from(await upstream.arrayBuffer())
+  };
+}
+
+async function callGemini(path, search, method, body) {
+  let last = null;
+  for (const idx of geminiOrder()) {
+    const result = await forward('gemini', path, search, method, body, GEMINI_KEYS[idx]);
+    recordGemini(idx, result.status);
+    const keyProblem = result.status === 401 || result.status === 403 || result.status === 429 || result.status >= 500;
+    if (!keyProblem) return result;
+    console.warn(`gemini key ${mask(GEMINI_KEYS[idx])} answered ${result.status}, trying the next one`);
+    last = result;
+  }
+  return last || { status: 503, content_type: 'application/json', body: Buffer.from(JSON.stringify({ error: 'All Gemini keys are cooling down' })) };
+}
+
+function health() {
+  const now = Date.now();
+  return {
+    services: Object.fromEntries(Object.entries(SERVICES).map(([id, s]) => [id, s.enabled()])),
+    cache_entries: cache.size,
+    gemini_keys: GEMINI_KEYS.map((k, i) => {
+      const s = geminiStats[i];
+      return {
+        id: String(i),
+        masked: mask(k),
+        state: s.cooldown_until > now ? 'cooling' : 'ready',
+        day: s.day,
+        uses_today: s.day === today() ? s.uses_today : 0,
+        failures: s.failures,
+        total_failures: s.total_failures,
+        cooldown_until: s.cooldown_until,
+        last_status: s.last_status
+      };
+    })
+  };
+}
+
+async function handle(req, res) {
+  const cors = corsHeaders(req);
+  if (!originAllowed(req)) return send(res, 403, { error: 'Origin not allowed' });
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    return res.end();
+  }
+
+  const url = new URL(req.url, 'http://proxy.local');
+  if (!url.pathname.startsWith(PREFIX + '/')) return send(res, 404, { error: 'Not found' }, cors);
+  const [, service, ...rest] = url.pathname.slice(PREFIX.length).split('/');
+  const path = '/' + rest.join('/');
+
+  if (service === 'health' && req.method === 'GET') return send(res, 200, health(), cors);
+
+  const def = SERVICES[service];
+  if (!def || !def.paths.some(re => re.test(path))) return send(res, 404, { error: 'Unknown endpoint' }, cors);
+  if (req.method !== 'GET' && req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' }, cors);
+  if (!def.enabled()) return send(res, 503, { error: `${service} is not configured on the proxy` }, cors);
+
+  const retryAfter = takeToken(clientId(req), service);
+  if (retryAfter) return send(res, 429, { error: 'Rate limit exceeded' }, { ...cors, 'retry-after': String(retryAfter) });
+
+  const body = req.method === 'POST' ? await readBody(req) : Buffer.alloc(0);
+  // Keys the client may have sent (the Gemini SDK always sends one) are dropped here
+  url.searchParams.delete('key');
+  url.searchParams.delete('api_key');
+  url.searchParams.delete('apikey');
+  url.searchParams.delete('username');
+
+  const cacheKey = def.cache_ttl_ms
+    ? createHash('sha256').update(`${req.method} ${service}${path}?${url.searchParams}\n`).update(body).digest('hex')
+    : null;
+  const cached = cacheKey && cacheGet(cacheKey);
+  if (cached) return send(res, 200, cached.body, { ...cors, 'content-type': cached.content_type, 'x-proxy-cache': 'HIT' });
+
+  const result = service === 'gemini'
+    ? await callGemini(path, url.searchParams, req.method, body)
+    : await forward(service, path, url.searchParams, req.method, body);
+  if (cacheKey && result.status === 200) {
+    cacheSet(cacheKey, { ...result, expires: Date.now() + def.cache_ttl_ms });
+  }
+  send(res, result.status, result.body, { ...cors, 'content-type': result.content_type, 'x-proxy-cache': 'MISS' });
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(e => {
+    console.warn('proxy error', e);
+    if (!res.headersSent) send(res, e.status || 502, { error: e.status ? e.message : 'Upstream request failed' }, corsHeaders(req));
+    else res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  const on = Object.entries(SERVICES).filter(([, s]) => s.enabled()).map(([id]) => id);
+  console.log(`IDSS API proxy on http://localhost:${PORT}${PREFIX} (services: ${on.join(', ') || 'none configured'})`);
+});
@@ -0,0 +1,80 @@
+import { GEONAMES_USER, ORS_KEY, OPENTRIPMAP_KEY } from '../constants';
+
+/* ===========================
+   Third-party API access: direct with bundled keys, or through the key-holding proxy
+   =========================== */
+
+export type ApiService = 'ors' | 'opentripmap' | 'geonames' | 'gemini';
+export type ApiMode = 'direct' | 'proxy';
+
+export const API_MODE: ApiMode = process.env.VITE_API_MODE === 'proxy' ? 'proxy' : 'direct';
+const PROXY_URL = (process.env.VITE_PROXY_URL || '/api').replace(/\/+$/, '');
+
+const UPSTREAM: Record<ApiService, string> = {
+  ors: 'https://api.openrouteservice.org',
+  opentripmap: 'https://api.opentripmap.com/0.1',
+  geonames: 'https://secure.geonames.org',
+  gemini: 'https://generativelanguage.googleapis.com'
+};
+
+// In proxy mode the server decides; a service without a key there answers 503
+export function serviceEnabled(service: ApiService): boolean {
+  if (API_MODE === 'proxy') return true;
+  if (service === 'ors') return !!ORS_KEY;
+  if (service === 'opentripmap') return !!OPENTRIPMAP_KEY;
+  if (service === 'geonames') return !!GEONAMES_USER;
+  return false; // Gemini goes through the SDK and its key pool, not serviceFetch
+}
+
+// Env variables direct mode relies on that the build did not get; their services are skipped
+export function missingDirectKeys(): string[] {
+  if (API_MODE === 'proxy') return [];
+  const keys: [string, string][] = [['VITE_GEONAMES_USER', GEONAMES_USER], ['VITE_ORS_KEY', ORS_KEY], ['VITE_OPENTRIPMAP_KEY', OPENTRIPMAP_KEY]];
+  return keys.filter(([, value]) => !value).map(([name]) => name);
+}
+
+function absolute(url: string): string {
+  return typeof window !== 'undefined' ? new URL(url, window.location.href).href : url;
+}
+
+export function proxyUrl(path: string): string {
+  return absolute(`${PROXY_URL}${path}`);
+}
+
+// Base URL for the Gemini SDK when its requests should go through the proxy
+export function geminiProxyBaseUrl(): string {
+  return proxyUrl('/gemini');
+}
+
+interface ServiceRequest {
+  query?: Record<string, string | number>;
+  body?: unknown; // Sent as JSON with POST
+  signal?: AbortSignal;
+}
+
+/**
+ * Calls `path` on a third-party API. Direct mode adds the bundled credential the way each
+ * API expects it; proxy mode sends the bare request to `${VITE_PROXY_URL}/<service>/...`.
+ */
+export function serviceFetch(service: ApiService, path: string, req: ServiceRequest = {}): Promise<Response> {
+  const params = new URLSearchParams();
+  Object.entries(req.query || {}).forEach(([k, v]) => params.set(k, String(v)));
+  const headers: Record<string, string> = {};
+  if (req.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  let base = `${PROXY_URL}/${service}`;
+  if (API_MODE === 'direct') {
+    base = UPSTREAM[service];
+    if (service === 'ors') headers.Authorization = ORS_KEY;
+    if (service === 'opentripmap') params.set('apikey', OPENTRIPMAP_KEY);
+    if (service === 'geonames') params.set('username', GEONAMES_USER);
+  }
+
+  const qs = params.toString();
+  return fetch(`${base}${path}${qs ? `?${qs}` : ''}`, {
+    method: req.body !== undefined ? 'POST' : 'GET',
+    headers,
+    body: req.body !== undefined ? JSON.stringify(req.body) : undefined,
+    signal: req.signal
+  });
+}
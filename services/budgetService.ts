@@ -0,0 +1,91 @@
+import { CURRENCY_ALIASES, CURRENCY_TO_EUR } from '../constants';
+import { BudgetConstraint, BudgetScope, BudgetStatus, CostBreakdown } from '../types';
+
+/* ===========================
+   Budget Parsing
+   =========================== */
+
+const TOTAL_PATTERN = /(ukupno|total|gesamt|za grupu|group|cijel)/;
+
+function parseAmount(raw: string): number | null {
+  let s = raw.replace(/\s+/g, '');
+  const lastDot = s.lastIndexOf('.');
+  const lastComma = s.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Both separators present: whichever comes last is the decimal mark
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    s = s.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const sep = lastComma >= 0 ? ',' : '.';
+    const parts = s.split(sep);
+    // "1.500" or "12,000" are thousands; "12,5" is a decimal
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    s = isThousands ? parts.join('') : parts.join('.');
+  }
+
+  const n = parseFloat(s);
+  return isNaN(n) || n <= 0 ? null : n;
+}
+
+function detectCurrency(lower: string): string {
+  const tokens = lower.split(/[\s\d.,/]+/).filter(t => t.length > 0);
+  for (const t of tokens) {
+    if (CURRENCY_ALIASES[t]) return CURRENCY_ALIASES[t];
+  }
+  for (const symbol of ['€', '$', '£']) {
+    if (lower.includes(symbol)) return CURRENCY_ALIASES[symbol];
+  }
+  return 'EUR';
+}
+
+/**
+ * Parses the free-text budget field, e.g. "500 EUR", "450 KM po učeniku" or "7.000 € ukupno".
+ * Amounts are per student unless the text says otherwise.
+ */
+export function parseBudget(input: string): BudgetConstraint | null {
+  if (!input || input.trim() === '') return null;
+  const lower = input.trim().toLowerCase();
+
+  const match = lower.match(/\d[\d\s.,]*/);
+  if (!match) return null;
+  const amount = parseAmount(match[0].trim().replace(/[.,]$/, ''));
+  if (amount === null) return null;
+
+  const currency = detectCurrency(lower);
+  const scope: BudgetScope = TOTAL_PATTERN.test(lower) ? 'total' : 'per_student';
+
+  return {
+    amount,
+    currency,
+    amount_eur: Math.round(amount * (CURRENCY_TO_EUR[currency] ?? 1) * 100) / 100,
+    scope
+  };
+}
+
+/* ===========================
+   Budget Evaluation
+   =========================== */
+
+export function evaluateBudget(breakdown: CostBreakdown, students: number, budget: BudgetConstraint, adjustments: string[] = []): BudgetStatus {
+  const studentCount = Math.max(1, students);
+  const limitTotal = budget.scope === 'total' ? budget.amount_eur : budget.amount_eur * studentCount;
+  const limitPerStudent = limitTotal / studentCount;
+  const deltaTotal = breakdown.total - limitTotal;
+
+  return {
+    limit_eur: budget.amount_eur,
+    scope: budget.scope,
+    limit_per_student: Math.round(limitPerStudent * 100) / 100,
+    delta_per_student: Math.round((breakdown.per_student - limitPerStudent) * 100) / 100,
+    delta_total: Math.round(deltaTotal * 100) / 100,
+    within_budget: deltaTotal <= 0,
+    adjustments
+  };
+}
+
+export function exceedsBudget(breakdown: CostBreakdown, students: number, budget: BudgetConstraint | null): boolean {
+  if (!budget) return false;
+  return !evaluateBudget(breakdown, students, budget).within_budget;
+}
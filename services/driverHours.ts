@@ -0,0 +1,112 @@
+import { DriverCompliance, DriverDayCheck, RouteLeg } from '../types';
+
+/* ===========================
+   EU Regulation 561/2006 (simplified for coach excursions)
+   =========================== */
+
+const DAILY_DRIVING_H = 9;
+const EXTENDED_DRIVING_H = 10; // Allowed at most twice per week
+const MAX_EXTENSIONS_PER_WEEK = 2;
+const BREAK_AFTER_H = 4.5;
+const BREAK_MIN = 45;
+const SINGLE_DRIVER_DUTY_H = 13; // 24h minus an 11h daily rest
+const TWO_DRIVER_DRIVING_H = 18; // Each driver within the 9h daily limit
+const WEEKLY_DRIVING_H = 56;
+
+export interface DrivingDay {
+  day: number;
+  driving_h: number;
+  legs: string[];
+}
+
+/**
+ * Day a leg is travelled on: the first leg on day 1, the way home on the last day
+ * and intermediate legs evenly in between.
+ */
+export function legDay(index: number, legCount: number, days: number): number {
+  const last = legCount - 1;
+  return last > 0 ? 1 + Math.floor(index * (Math.max(1, days) - 1) / last) : 1;
+}
+
+export function assignDrivingDays(legs: RouteLeg[], days: number): DrivingDay[] {
+  const out: DrivingDay[] = Array.from({ length: Math.max(1, days) }, (_, i) => ({ day: i + 1, driving_h: 0, legs: [] }));
+  legs.forEach((leg, i) => {
+    if (leg.mode !== 'bus') return;
+    const day = legDay(i, legs.length, out.length);
+    out[day - 1].driving_h += leg.duration_h;
+    out[day - 1].legs.push(`${leg.from} → ${leg.to}`);
+  });
+  return out.filter(d => d.driving_h > 0);
+}
+
+function requiredBreaks(drivingH: number): number {
+  return Math.max(0, Math.ceil(drivingH / BREAK_AFTER_H) - 1);
+}
+
+export function breakMinutes(drivingH: number): number {
+  return requiredBreaks(drivingH) * BREAK_MIN;
+}
+
+export function checkDriverHours(drivingDays: DrivingDay[]): DriverCompliance {
+  const violations: string[] = [];
+  let extensionsUsed = 0;
+
+  const days: DriverDayCheck[] = drivingDays.map(d => {
+    const h = Math.round(d.driving_h * 100) / 100;
+    const breaks = requiredBreaks(h);
+    const dutyH = h + (breaks * BREAK_MIN) / 60;
+    let secondDriver = false;
+    let extended = false;
+
+    if (h > TWO_DRIVER_DRIVING_H) {
+      secondDriver = true;
+      violations.push(`Day ${d.day}: ${h.toFixed(1)} h of driving exceeds even a two-driver crew (${TWO_DRIVER_DRIVING_H} h). Split the route or add a day.`);
+    } else if (h > EXTENDED_DRIVING_H) {
+      secondDriver = true;
+    } else if (h > DAILY_DRIVING_H) {
+      if (extensionsUsed < MAX_EXTENSIONS_PER_WEEK) {
+        extended = true;
+        extensionsUsed++;
+      } else {
+        secondDriver = true;
+      }
+    }
+
+    if (!secondDriver && dutyH > SINGLE_DRIVER_DUTY_H) {
+      secondDriver = true;
+    }
+
+    return {
+      day: d.day,
+      driving_h: h,
+      breaks_required: breaks,
+      break_minutes: breaks * BREAK_MIN,
+      second_driver: secondDriver,
+      extended
+    };
+  });
+
+  // Weekly limit applies per driver, so a two-driver day counts half for each
+  for (let start = 0; start < days.length; start++) {
+    const windowDays = days.filter(d => d.day >= days[start].day && d.day < days[start].day + 7);
+    const perDriver = windowDays.reduce((sum, d) => sum + (d.second_driver ? d.driving_h / 2 : d.driving_h), 0);
+    if (perDriver > WEEKLY_DRIVING_H) {
+      violations.push(`Days ${windowDays[0].day}–${windowDays[windowDays.length - 1].day}: ${perDriver.toFixed(1)} h per driver exceeds the ${WEEKLY_DRIVING_H} h weekly limit.`);
+      break;
+    }
+  }
+
+  return {
+    days,
+    violations,
+    second_driver_required: days.some(d => d.second_driver)
+  };
+}
+
+export function describeDriverDay(d: DriverDayCheck): string {
+  const parts = [`${d.driving_h.toFixed(1)} h coach driving`];
+  if (d.breaks_required > 0) parts.push(`${d.breaks_required} × ${BREAK_MIN} min driver break${d.breaks_required > 1 ? 's' : ''}`);
+  if (d.second_driver) parts.push('second driver on board');
+  else if (d.extended) parts.push('uses a 10 h extension');
+  return parts.join(', ');
+}
@@ -0,0 +1,153 @@
+import { FocusTag, Poi } from '../types';
+
+/* ===========================
+   Educational focus taxonomy
+   =========================== */
+
+export interface FocusCategory {
+  id: FocusTag;
+  label: { bs: string; en: string; de: string };
+  synonyms: string[]; // Bosnian, English and German terms, matched without diacritics
+  wikidata: string[]; // Wikidata classes (instance of / subclass of)
+  otm_kinds: string[]; // OpenTripMap kinds
+  osm_tags: [string, string][]; // OSM key/value pairs
+}
+
+export const FOCUS_TAXONOMY: FocusCategory[] = [
+  {
+    id: 'history',
+    label: { bs: 'Historija i kulturno nasljeđe', en: 'History & heritage', de: 'Geschichte & Kulturerbe' },
+    synonyms: ['historija', 'povijest', 'kulturno nasljeđe', 'nasljeđe', 'baština', 'arheologija', 'history', 'heritage', 'archaeology', 'geschichte', 'kulturerbe', 'erbe', 'archäologie'],
+    wikidata: ['Q588140', 'Q839954', 'Q23413', 'Q4989906'], // history museum, archaeological site, castle, monument
+    otm_kinds: ['historic', 'archaeology', 'fortifications', 'monuments_and_memorials', 'history_museums'],
+    osm_tags: [['historic', 'castle'], ['historic', 'monument'], ['historic', 'archaeological_site']]
+  },
+  {
+    id: 'stem',
+    label: { bs: 'Nauka i tehnika (STEM)', en: 'Science & technology (STEM)', de: 'Naturwissenschaft & Technik (MINT)' },
+    synonyms: ['nauka', 'znanost', 'tehnika', 'tehnologija', 'matematika', 'fizika', 'obrazovanje', 'edukacija', 'science', 'technology', 'engineering', 'stem', 'education', 'wissenschaft', 'naturwissenschaft', 'technik', 'mint', 'bildung'],
+    wikidata: ['Q2087181', 'Q148319', 'Q62832'], // science museum, planetarium, observatory
+    otm_kinds: ['science_museums', 'observatories'],
+    osm_tags: [['tourism', 'museum'], ['man_made', 'observatory']]
+  },
+  {
+    id: 'art',
+    label: { bs: 'Umjetnost', en: 'Art', de: 'Kunst' },
+    synonyms: ['umjetnost', 'galerija', 'likovno', 'pozorište', 'kazalište', 'muzika', 'art', 'gallery', 'theatre', 'music', 'kunst', 'galerie', 'theater', 'musik'],
+    wikidata: ['Q207694', 'Q1007870', 'Q24354'], // art museum, art gallery, theatre building
+    otm_kinds: ['art_galleries', 'theatres_and_entertainments', 'sculptures'],
+    osm_tags: [['tourism', 'gallery'], ['amenity', 'theatre'], ['tourism', 'artwork']]
+  },
+  {
+    id: 'nature',
+    label: { bs: 'Priroda i okoliš', en: 'Nature & environment', de: 'Natur & Umwelt' },
+    synonyms: ['priroda', 'okoliš', 'okolina', 'biologija', 'geografija', 'nacionalni park', 'nature', 'environment', 'biology', 'geography', 'natur', 'umwelt', 'biologie', 'erdkunde'],
+    wikidata: ['Q46169', 'Q179049', 'Q35509', 'Q34038', 'Q167346'], // national park, nature reserve, cave, waterfall, botanical garden
+    otm_kinds: ['natural', 'nature_reserves', 'geological_formations', 'waterfalls', 'gardens_and_parks'],
+    osm_tags: [['leisure', 'nature_reserve'], ['natural', 'cave_entrance'], ['waterway', 'waterfall']]
+  },
+  {
+    id: 'religion',
+    label: { bs: 'Religija', en: 'Religion', de: 'Religion' },
+    synonyms: ['religija', 'vjera', 'džamija', 'crkva', 'sinagoga', 'manastir', 'religion', 'faith', 'mosque', 'church', 'synagogue', 'monastery', 'glaube', 'moschee', 'kirche', 'kloster'],
+    wikidata: ['Q32815', 'Q16970', 'Q34627', 'Q44613'], // mosque, church building, synagogue, monastery
+    otm_kinds: ['religion', 'mosques', 'churches', 'synagogues', 'monasteries'],
+    osm_tags: [['amenity', 'place_of_worship']]
+  },
+  {
+    id: 'industry',
+    label: { bs: 'Industrija i privreda', en: 'Industry & economy', de: 'Industrie & Wirtschaft' },
+    synonyms: ['industrija', 'privreda', 'ekonomija', 'rudnik', 'fabrika', 'tvornica', 'industry', 'economy', 'mine', 'factory', 'industrie', 'wirtschaft', 'bergwerk', 'fabrik'],
+    wikidata: ['Q820477', 'Q83405', 'Q159719', 'Q131734'], // mine, factory, power station, brewery
+    otm_kinds: ['industrial_facilities', 'mineshafts', 'factories', 'power_stations'],
+    osm_tags: [['man_made', 'works'], ['historic', 'mine'], ['power', 'plant']]
+  },
+  {
+    id: 'language',
+    label: { bs: 'Jezik i književnost', en: 'Language & literature', de: 'Sprache & Literatur' },
+    synonyms: ['jezik', 'književnost', 'biblioteka', 'knjižnica', 'pisac', 'language', 'literature', 'library', 'writer', 'sprache', 'literatur', 'bibliothek', 'schriftsteller'],
+    wikidata: ['Q7075', 'Q1329623'], // library, cultural center
+    otm_kinds: ['biographical_museums', 'cultural'],
+    osm_tags: [['amenity', 'library'], ['amenity', 'arts_centre']]
+  },
+  {
+    id: 'leisure',
+    label: { bs: 'Zabava i rekreacija', en: 'Leisure & fun', de: 'Freizeit & Spaß' },
+    synonyms: ['zabava', 'rekreacija', 'sport', 'zoološki vrt', 'akvarij', 'fun', 'leisure', 'recreation', 'zoo', 'aquarium', 'freizeit', 'spaß', 'erholung'],
+    wikidata: ['Q194195', 'Q43501', 'Q2281788'], // amusement park, zoo, public aquarium
+    otm_kinds: ['amusements', 'zoos', 'aquariums'],
+    osm_tags: [['tourism', 'theme_park'], ['tourism', 'zoo'], ['tourism', 'aquarium']]
+  }
+];
+
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/đ/g, 'dj')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim();
+}
+
+export function getFocusCategory(id: FocusTag): FocusCategory | undefined {
+  return FOCUS_TAXONOMY.find(c => c.id === id);
+}
+
+// Folded words joined by single spaces and padded, so whole words can be found with includes()
+const wordText = (text: string) => ` ${foldText(text).split(/[^a-z0-9]+/).filter(Boolean).join(' ')} `;
+
+// Whether a synonym appears in the text as whole words: "transport" does not contain "sport"
+const containsSynonym = (words: string, synonym: string) => foldText(synonym).length > 3 && words.includes(wordText(synonym));
+
+// Tag for a single term in any supported language, e.g. "Kulturno nasljeđe" → 'history'
+export function matchFocusTerm(term: string): FocusTag | null {
+  const t = foldText(term);
+  if (t.length < 2) return null;
+  const exact = FOCUS_TAXONOMY.find(c => c.id === t || c.synonyms.some(s => foldText(s) === t));
+  if (exact) return exact.id;
+  // Whole words only: "transport" must not match "sport"; a typed word stem ("arheolog") still does
+  const words = wordText(term);
+  const partial = FOCUS_TAXONOMY.find(c => c.synonyms.some(s => {
+    const f = foldText(s);
+    return containsSynonym(words, s) || (f.length > 3 && t.length > 3 && f.startsWith(t));
+  }));
+  return partial ? partial.id : null;
+}
+
+const splitFocusText = (input: string) => input.split(/[,;/]+/);
+
+/**
+ * Normalises focus input to taxonomy tags. Accepts the tag list used by the form
+ * as well as the older comma-separated free text ("kulturno nasljeđe, zabava").
+ */
+export function parseFocus(input: FocusTag[] | string | undefined | null): FocusTag[] {
+  const terms = Array.isArray(input) ? input : splitFocusText(input || '');
+  const tags: FocusTag[] = [];
+  terms.forEach(term => {
+    const tag = matchFocusTerm(term);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  });
+  return tags;
+}
+
+// Terms of free-text focus input that map to no tag, so the form can say which ones were dropped
+export function unmatchedFocusTerms(input: string): string[] {
+  return splitFocusText(input).map(term => term.trim()).filter(term => term && !matchFocusTerm(term));
+}
+
+export function describeFocus(tags: FocusTag[], lang: 'bs' | 'en' | 'de' = 'en'): string {
+  return tags.map(t => getFocusCategory(t)?.label[lang] || t).join(', ');
+}
+
+// Whether a venue fits a focus tag, judged by provider kinds first and its name second
+export function poiMatchesFocus(poi: Poi, tag: FocusTag): boolean {
+  const category = getFocusCategory(tag);
+  if (!category) return false;
+  const kinds = (poi.kinds || []).map(k => foldText(k));
+  if (kinds.includes(tag)) return true;
+  if (category.otm_kinds.some(k => kinds.includes(k))) return true;
+  if (category.osm_tags.some(([, value]) => value !== 'museum' && kinds.includes(value))) return true;
+  const name = wordText(poi.label);
+  return category.synonyms.some(s => containsSynonym(name, s));
+}
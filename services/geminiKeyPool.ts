@@ -0,0 +1,211 @@
+import { GEMINI_KEY_DAILY_LIMIT } from '../constants';
+import { abortableSleep, isAbortError, throwIfAborted } from './progress';
+
+/* ===========================
+   Gemini API key pool: failover, cooldowns, daily usage
+   =========================== */
+
+interface KeyStats {
+  day: string; // Local date the usage count belongs to
+  uses_today: number;
+  failures: number; // Consecutive, reset by a success
+  total_failures: number;
+  cooldown_until: number; // Epoch ms
+  last_status?: number;
+  last_error?: string;
+  last_used?: number;
+}
+
+export interface KeyHealth extends KeyStats {
+  id: string;
+  masked: string;
+  state: 'ready' | 'cooling' | 'exhausted';
+}
+
+const STATS_KEY = 'idss_gemini_key_pool'; // Stats only, keyed by a hash; the keys themselves are never stored
+
+const RATE_LIMIT_COOLDOWN_MS = 60_000; // Doubles per consecutive 429, up to an hour
+const MAX_RATE_LIMIT_COOLDOWN_MS = 60 * 60_000;
+const AUTH_COOLDOWN_MS = 24 * 60 * 60_000; // 401/403: revoked key or API not enabled
+const SERVER_COOLDOWN_MS = 15_000;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 4000;
+
+export class KeyPoolExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyPoolExhaustedError';
+  }
+}
+
+export function configuredKeys(): string[] {
+  const keysString = process.env.VITE_GEMINI_API_KEYS || process.env.API_KEY;
+  if (!keysString) return [];
+  return Array.from(new Set(keysString.split(',').map(k => k.trim()).filter(k => k.length > 0)));
+}
+
+// FNV-1a, enough to tell keys apart in the stats without keeping them in localStorage
+function keyId(key: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+const maskKey = (key: string) => `…${key.slice(-4)}`;
+
+function today(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function nextMidnight(): number {
+  const d = new Date();
+  d.setHours(24, 0, 0, 0);
+  return d.getTime();
+}
+
+function freshStats(): KeyStats {
+  return { day: today(), uses_today: 0, failures: 0, total_failures: 0, cooldown_until: 0 };
+}
+
+function loadStats(): Record<string, KeyStats> {
+  try {
+    const raw = localStorage.getItem(STATS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn('key pool stats load fail', e);
+    return {};
+  }
+}
+
+function saveStats(stats: Record<string, KeyStats>) {
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.warn('key pool stats save fail', e);
+  }
+}
+
+function statsFor(all: Record<string, KeyStats>, key: string): KeyStats {
+  const id = keyId(key);
+  const s = all[id] || freshStats();
+  if (s.day !== today()) {
+    s.day = today();
+    s.uses_today = 0;
+  }
+  all[id] = s;
+  return s;
+}
+
+function stateOf(s: KeyStats, now: number): KeyHealth['state'] {
+  if (s.uses_today >= GEMINI_KEY_DAILY_LIMIT) return 'exhausted';
+  return s.cooldown_until > now ? 'cooling' : 'ready';
+}
+
+export function keyPoolHealth(): KeyHealth[] {
+  const all = loadStats();
+  const now = Date.now();
+  return configuredKeys().map(key => {
+    const s = statsFor(all, key);
+    return { ...s, id: keyId(key), masked: maskKey(key), state: stateOf(s, now) };
+  });
+}
+
+export function resetKeyPool() {
+  localStorage.removeItem(STATS_KEY);
+}
+
+// HTTP status of a failed SDK call; the SDK puts it on ApiError, fetch failures have none
+export function errorStatus(e: any): number | undefined {
+  if (typeof e?.status === 'number') return e.status;
+  const m = String(e?.message || '').match(/\b(4\d\d|5\d\d)\b/);
+  return m ? parseInt(m[1], 10) : undefined;
+}
+
+// Whether another key could succeed where this one failed
+function isKeyProblem(status: number | undefined): boolean {
+  return status === undefined || status === 401 || status === 403 || status === 429 || status >= 500;
+}
+
+function recordFailure(key: string, e: any) {
+  const all = loadStats();
+  const s = statsFor(all, key);
+  const status = errorStatus(e);
+  const message = String(e?.message || e);
+  s.failures += 1;
+  s.total_failures += 1;
+  s.last_status = status;
+  s.last_error = message.slice(0, 200);
+  const now = Date.now();
+  if (status === 429) {
+    // A per-day quota will not come back before midnight
+    s.cooldown_until = /per ?day/i.test(message)
+      ? nextMidnight()
+      : now + Math.min(MAX_RATE_LIMIT_COOLDOWN_MS, RATE_LIMIT_COOLDOWN_MS * 2 ** (s.failures - 1));
+  } else if (status === 401 || status === 403) {
+    s.cooldown_until = now + AUTH_COOLDOWN_MS;
+  } else {
+    s.cooldown_until = now + SERVER_COOLDOWN_MS;
+  }
+  saveStats(all);
+}
+
+function recordUse(key: string, ok: boolean) {
+  const all = loadStats();
+  const s = statsFor(all, key);
+  s.uses_today += 1;
+  s.last_used = Date.now();
+  if (ok) {
+    s.failures = 0;
+    s.cooldown_until = 0;
+  }
+  saveStats(all);
+}
+
+// Ready keys first, least used today first, so load spreads across the pool
+function pickKey(tried: Set<string>): string | undefined {
+  const all = loadStats();
+  const now = Date.now();
+  return configuredKeys()
+    .filter(k => !tried.has(k))
+    .map(k => ({ k, s: statsFor(all, k) }))
+    .filter(({ s }) => stateOf(s, now) === 'ready')
+    .sort((a, b) => a.s.uses_today - b.s.uses_today || a.s.failures - b.s.failures)[0]?.k;
+}
+
+/**
+ * Runs `call` with a healthy key. When the key is rate limited, rejected or the server fails,
+ * the same call is retried on the next ready key after an exponential backoff. Errors caused
+ * by the request itself (400 and the like) are thrown straight away, and so is cancellation.
+ */
+export async function withGeminiKey<T>(call: (apiKey: string) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const tried = new Set<string>();
+  let lastError: any;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    const key = pickKey(tried);
+    if (!key) break;
+    tried.add(key);
+    if (attempt > 0) await abortableSleep(Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1)), signal);
+    try {
+      const result = await call(key);
+      recordUse(key, true);
+      return result;
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      lastError = e;
+      recordUse(key, false);
+      const status = errorStatus(e);
+      if (!isKeyProblem(status)) throw e;
+      recordFailure(key, e);
+      console.warn(`Gemini key ${maskKey(key)} failed (${status ?? 'network'}), trying the next one`);
+    }
+  }
+  if (configuredKeys().length === 0) throw new KeyPoolExhaustedError('No Gemini API key is configured.');
+  throw new KeyPoolExhaustedError(lastError
+    ? `All Gemini keys failed; last error: ${String(lastError?.message || lastError).slice(0, 200)}`
+    : 'All Gemini keys are cooling down or over their daily limit.');
+}
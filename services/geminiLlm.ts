@@ -0,0 +1,168 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Poi } from '../types';
+import {
+  DescribeRequest,
+  EMPTY_DRAFT,
+  ItineraryDraft,
+  ItineraryPrompt,
+  LlmProvider,
+  PoiDescription,
+  SuggestRequest,
+  describePrompt,
+  itineraryPrompt,
+  parseJsonReply,
+  readItineraryDraft,
+  readPoiDescriptions,
+  suggestionPrompt
+} from './llm';
+import { configuredKeys, withGeminiKey } from './geminiKeyPool';
+import { API_MODE, geminiProxyBaseUrl } from './apiGateway';
+import { isAbortError } from './progress';
+
+/* ===========================
+   Gemini (Google GenAI SDK)
+   =========================== */
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const POI_DESCRIPTIONS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      description: { type: Type.STRING }
+    }
+  }
+};
+
+const ITINERARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    itinerary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          day: { type: Type.INTEGER },
+          blocks: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                start: { type: Type.STRING, description: "24-hour start time, HH:MM." },
+                end: { type: Type.STRING, description: "24-hour end time, HH:MM." },
+                kind: { type: Type.STRING, enum: ['travel', 'visit', 'meal', 'lodging', 'free'] },
+                title: { type: Type.STRING },
+                location: { type: Type.STRING, description: "Exact place name; a Contextual POI name when it is one." },
+                cost_eur: { type: Type.NUMBER, description: "Estimated cost per student in EUR, if any." },
+                notes: { type: Type.STRING }
+              },
+              required: ['start', 'end', 'kind', 'title']
+            }
+          }
+        },
+        required: ['day', 'blocks']
+      }
+    },
+    poi_descriptions: POI_DESCRIPTIONS_SCHEMA
+  }
+};
+
+export function createGeminiProvider(model: string = DEFAULT_GEMINI_MODEL): LlmProvider {
+  // Direct requests go through the key pool, which fails over to the next healthy key;
+  // behind the proxy the server holds the keys and does the same
+  const generate = (params: Omit<Parameters<GoogleGenAI['models']['generateContent']>[0], 'model'>, signal?: AbortSignal) => {
+    const request = { model, ...params, config: { ...params.config, abortSignal: signal } };
+    return API_MODE === 'proxy'
+      ? new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: geminiProxyBaseUrl() } }).models.generateContent(request)
+      : withGeminiKey(apiKey => new GoogleGenAI({ apiKey }).models.generateContent(request), signal);
+  };
+  const available = () => API_MODE === 'proxy' || configuredKeys().length > 0;
+
+  // Maps grounding answers with places rather than JSON, so the chunks are the suggestions
+  const suggestDestinations = async (req: SuggestRequest, signal?: AbortSignal): Promise<Poi[]> => {
+    if (!available()) return [];
+    try {
+      const response = await generate({
+        contents: suggestionPrompt(req),
+        config: {
+          tools: [{ googleMaps: {} }],
+          toolConfig: {
+            retrievalConfig: {
+              latLng: { latitude: req.origin.lat, longitude: req.origin.lng }
+            }
+          }
+        }
+      }, signal);
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+      if (!chunks) return [];
+
+      const results: Poi[] = [];
+      const seen = new Set<string>();
+      for (const chunk of chunks) {
+        const title = chunk.maps?.title;
+        if (title && !seen.has(title)) {
+          seen.add(title);
+          results.push({
+            label: title,
+            lat: NaN,
+            lng: NaN,
+            url: chunk.maps?.uri || null,
+            source: 'google-maps',
+            resolution: 'unresolved'
+          });
+        }
+      }
+      return results;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Gemini Maps Grounding error:", e);
+      return [];
+    }
+  };
+
+  const generateItinerary = async (req: ItineraryPrompt, signal?: AbortSignal): Promise<ItineraryDraft> => {
+    if (!available()) return EMPTY_DRAFT;
+    try {
+      const response = await generate({
+        contents: itineraryPrompt(req),
+        config: { responseMimeType: 'application/json', responseSchema: ITINERARY_SCHEMA }
+      }, signal);
+      return readItineraryDraft(parseJsonReply(response.text || ''));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Gemini Itinerary Gen Error", e);
+      return EMPTY_DRAFT;
+    }
+  };
+
+  const describePois = async (req: DescribeRequest, signal?: AbortSignal): Promise<PoiDescription[]> => {
+    if (req.pois.length === 0 || !available()) return [];
+    try {
+      const response = await generate({
+        contents: describePrompt(req),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: { type: Type.OBJECT, properties: { poi_descriptions: POI_DESCRIPTIONS_SCHEMA } }
+        }
+      }, signal);
+      return readPoiDescriptions(parseJsonReply(response.text || ''));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Gemini POI description error", e);
+      return [];
+    }
+  };
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    grounded: true,
+    available,
+    suggestDestinations,
+    generateItinerary,
+    describePois
+  };
+}
@@ -0,0 +1,155 @@
+import { ItineraryBlock, TripPlan } from '../types';
+import { matchPlace, parseClock } from './itinerary';
+
+/* ===========================
+   iCalendar (.ics) export of an itinerary
+   =========================== */
+
+const PRODUCT_ID = '-//IDSS//Field Trip Planner//EN';
+const DEFAULT_BLOCK_MINUTES = 60; // For blocks with a start but no usable end
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const dateValue = (d: Date) => `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+// Floating local time: the trip's own clock, whatever zone the calendar is in
+const dateTimeValue = (d: Date) => `${dateValue(d)}T${pad(d.getHours())}${pad(d.getMinutes())}00`;
+const utcValue = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function addDays(d: Date, days: number): Date {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const d = new Date(day);
+  d.setHours(0, minutes, 0, 0);
+  return d;
+}
+
+// RFC 5545 text escaping
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'trip';
+}
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+  location?: string;
+  geo?: [number, number];
+  url?: string;
+  description?: string;
+}
+
+function eventLines(e: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${e.uid}`,
+    `DTSTAMP:${stamp}`,
+    e.all_day ? `DTSTART;VALUE=DATE:${dateValue(e.start)}` : `DTSTART:${dateTimeValue(e.start)}`,
+    e.all_day ? `DTEND;VALUE=DATE:${dateValue(e.end)}` : `DTEND:${dateTimeValue(e.end)}`,
+    `SUMMARY:${escapeText(e.summary)}`
+  ];
+  if (e.location) lines.push(`LOCATION:${escapeText(e.location)}`);
+  if (e.geo) lines.push(`GEO:${e.geo[0].toFixed(6)};${e.geo[1].toFixed(6)}`);
+  if (e.url) lines.push(`URL:${e.url}`);
+  if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function blockEvent(plan: TripPlan, block: ItineraryBlock, day: Date, uid: string): CalendarEvent {
+  const source = block.location ? matchPlace(block.location, plan.sources.filter(s => s.url)) : undefined;
+  const description = [
+    block.notes,
+    block.cost_eur ? `Cost per student: ${block.cost_eur} EUR` : '',
+    source?.url ? `Source: ${source.url}` : ''
+  ].filter(Boolean).join('\n');
+  const base = {
+    uid,
+    summary: block.title,
+    location: block.location,
+    geo: Number.isFinite(block.lat) && Number.isFinite(block.lng) ? [block.lat!, block.lng!] as [number, number] : undefined,
+    url: source?.url || undefined,
+    description: description || undefined
+  };
+
+  const start = parseClock(block.start);
+  if (start === null) return { ...base, start: day, end: addDays(day, 1), all_day: true };
+  let end = parseClock(block.end);
+  if (end === null || end === start) end = start + DEFAULT_BLOCK_MINUTES;
+  else if (end < start) end += 24 * 60; // Runs past midnight, e.g. an overnight ferry
+  return { ...base, start: atMinutes(day, start), end: atMinutes(day, end), all_day: false };
+}
+
+/**
+ * Turns a plan into an iCalendar file with day 1 on `depDate`: one event per time block, all-day
+ * entries for blocks without a time and for days without blocks, and one all-day event for the whole trip.
+ */
+export function planToIcs(plan: TripPlan, depDate: Date, now: Date = new Date()): string {
+  const stamp = utcValue(now);
+  const uidBase = `${slug(plan.title)}-${dateValue(depDate)}`;
+  const sourceUrls = plan.sources.map(s => s.url).filter((u): u is string => !!u);
+  const events: CalendarEvent[] = [{
+    uid: `${uidBase}-trip@idss-planner`,
+    summary: plan.title,
+    start: depDate,
+    end: addDays(depDate, Math.max(1, plan.number_of_days)),
+    all_day: true,
+    location: plan.destination,
+    url: sourceUrls[0],
+    description: [plan.why, `Cost per student: ${plan.estimated_cost_per_student}`, `Teachers: ${plan.accompanying_teachers}`, ...sourceUrls].filter(Boolean).join('\n')
+  }];
+
+  plan.itinerary.forEach(d => {
+    const day = addDays(depDate, d.day - 1);
+    if (d.blocks.length === 0) {
+      events.push({
+        uid: `${uidBase}-d${d.day}@idss-planner`,
+        summary: `Day ${d.day}: ${plan.destination}`,
+        start: day,
+        end: addDays(day, 1),
+        all_day: true,
+        description: d.summary
+      });
+      return;
+    }
+    d.blocks.forEach((b, i) => events.push(blockEvent(plan, b, day, `${uidBase}-d${d.day}-b${i}@idss-planner`)));
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(plan.title)}`,
+    ...events.flatMap(e => eventLines(e, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,106 @@
+/* ===========================
+   Minimal IndexedDB wrapper
+   =========================== */
+
+const DB_NAME = 'idss_planner';
+const DB_VERSION = 3;
+
+// Every object store the app uses; bump DB_VERSION when adding one
+export const STORES = {
+  geocode: 'geocode',
+  pois: 'pois',
+  library: 'library'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB not available'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let blocked = false;
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Already given up on a blocked open; don't keep a connection nobody uses
+        if (blocked) { db.close(); return; }
+        // Let another tab upgrade the schema instead of blocking it; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+      // An older connection in another tab is holding the upgrade; run without the cache rather than hang
+      req.onblocked = () => {
+        blocked = true;
+        reject(new Error('IndexedDB upgrade blocked by another open tab'));
+      };
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  }));
+}
+
+export async function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  try {
+    return await run<T | undefined>(store, 'readonly', s => s.get(key));
+  } catch (e) {
+    console.warn('idb get fail', e);
+    return undefined;
+  }
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  try {
+    await run(store, 'readwrite', s => s.put(value, key));
+  } catch (e) {
+    console.warn('idb put fail', e);
+  }
+}
+
+// Like idbPut, but waits for the commit and rejects (e.g. on a full quota); for data that is not just a cache
+export function idbPutStrict<T>(store: StoreName, key: string, value: T): Promise<void> {
+  return openDb().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  try {
+    await run(store, 'readwrite', s => s.delete(key));
+  } catch (e) {
+    console.warn('idb delete fail', e);
+  }
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  try {
+    return await run<T[]>(store, 'readonly', s => s.getAll());
+  } catch (e) {
+    console.warn('idb getAll fail', e);
+    return [];
+  }
+}
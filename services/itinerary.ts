@@ -0,0 +1,143 @@
+import { ItineraryBlock, ItineraryBlockKind, ItineraryDay, TripPlan } from '../types';
+
+/* ===========================
+   Time-block itinerary helpers
+   =========================== */
+
+export const BLOCK_KINDS: ItineraryBlockKind[] = ['travel', 'visit', 'meal', 'lodging', 'free'];
+
+export function toClock(minutes: number): string {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// Minutes after midnight for "14:30", "2:30 PM" or "02:30pm"; null when unreadable.
+// Like the plan schema, only 00:00–23:59 is a clock time: "24:00" is rejected rather than read as 00:00
+export function parseClock(input: string | undefined | null): number | null {
+  const m = String(input || '').trim().match(/^(\d{1,2})[:.](\d{2})\s*([ap])?\.?\s*m?\.?$/i);
+  if (!m) return null;
+  let hours = parseInt(m[1], 10);
+  const minutes = parseInt(m[2], 10);
+  if (minutes > 59 || hours > 23) return null;
+  const meridiem = m[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+export function normalizeClock(input: string | undefined | null): string {
+  const min = parseClock(input);
+  return min === null ? '' : toClock(min);
+}
+
+const KIND_KEYWORDS: [ItineraryBlockKind, RegExp][] = [
+  ['meal', /breakfast|lunch|dinner|meal|restaurant|doručak|ručak|večera|frühstück|mittagessen|abendessen/i],
+  ['lodging', /check-?in|check-?out|hotel|hostel|accommodation|smještaj|unterkunft/i],
+  ['travel', /departure|depart|travel|drive|transfer|journey|arriv|return|flight|train|ferry|coach|bus|polazak|povratak|abfahrt|rückfahrt/i],
+  ['visit', /visit|museum|tour|gallery|workshop|lecture|site|posjet|muzej|besuch/i]
+];
+
+// The keyword that appears first wins, so "Visit the museum by coach" is a visit
+export function guessBlockKind(text: string): ItineraryBlockKind {
+  let best: ItineraryBlockKind = 'free';
+  let bestAt = Infinity;
+  KIND_KEYWORDS.forEach(([kind, re]) => {
+    const at = text.search(re);
+    if (at >= 0 && at < bestAt) {
+      best = kind;
+      bestAt = at;
+    }
+  });
+  return best;
+}
+
+const TIME = '\\d{1,2}[:.]\\d{2}\\s*(?:[AaPp]\\.?[Mm]\\.?)?';
+const BLOCK_START = new RegExp(`(${TIME})(?:\\s*[-–—]+\\s*(${TIME}))?\\s*[-–—:]?\\s*`, 'g');
+
+/**
+ * Splits a free-text day ("08:00 AM - Departure… 12:00 PM - 01:30 PM - Lunch at…") into blocks.
+ * Text before the first time stays in `summary`; a block without an end time ends where the next begins.
+ */
+export function parseActivityText(text: string): { blocks: ItineraryBlock[]; summary?: string } {
+  const matches = Array.from(text.matchAll(BLOCK_START));
+  if (matches.length === 0) return { blocks: [], summary: text.trim() || undefined };
+
+  const lead = text.slice(0, matches[0].index).trim();
+  const blocks: ItineraryBlock[] = matches.map((m, i) => {
+    const bodyEnd = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    const title = text.slice(m.index! + m[0].length, bodyEnd).replace(/^[\s;,.]+|[\s;,]+$/g, '');
+    const start = normalizeClock(m[1]);
+    const end = normalizeClock(m[2]) || (i + 1 < matches.length ? normalizeClock(matches[i + 1][1]) : start);
+    return { start, end, kind: guessBlockKind(title), title };
+  }).filter(b => b.title.length > 0);
+
+  return { blocks, summary: lead || undefined };
+}
+
+function sanitizeBlock(raw: any): ItineraryBlock | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const title = String(raw.title || raw.description || '').trim();
+  if (!title) return null;
+  const block: ItineraryBlock = {
+    start: normalizeClock(raw.start),
+    end: normalizeClock(raw.end),
+    kind: BLOCK_KINDS.includes(raw.kind) ? raw.kind : guessBlockKind(title),
+    title
+  };
+  if (raw.location) block.location = String(raw.location);
+  if (Number.isFinite(raw.lat) && Number.isFinite(raw.lng)) {
+    block.lat = raw.lat;
+    block.lng = raw.lng;
+  }
+  const cost = parseFloat(raw.cost_eur);
+  if (Number.isFinite(cost) && cost >= 0) block.cost_eur = cost;
+  if (raw.notes) block.notes = String(raw.notes);
+  return block;
+}
+
+/**
+ * Accepts both the structured day format and the older `{ day, activity, poi_name }` one,
+ * so plans saved before the time-block model still load.
+ */
+export function migrateItinerary(raw: any): ItineraryDay[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((d: any, i: number) => {
+    const day = Number.isFinite(d?.day) ? d.day : i + 1;
+    if (Array.isArray(d?.blocks)) {
+      const blocks = d.blocks.map(sanitizeBlock).filter((b: ItineraryBlock | null): b is ItineraryBlock => b !== null);
+      return { day, blocks, summary: d.summary || undefined };
+    }
+    const { blocks, summary } = parseActivityText(String(d?.activity || d?.description || ''));
+    const poiName: string | undefined = d?.poi_name;
+    if (poiName) {
+      const target = blocks.find(b => b.title.toLowerCase().includes(poiName.toLowerCase())) || blocks.find(b => b.kind === 'visit');
+      if (target) target.location = poiName;
+    }
+    return { day, blocks, summary };
+  }).sort((a, b) => a.day - b.day);
+}
+
+export function migratePlan(plan: TripPlan): TripPlan {
+  return { ...plan, itinerary: locateBlocks(migrateItinerary(plan.itinerary), plan.sources || []) };
+}
+
+// Exact title first, then either name containing the other
+export function matchPlace<T extends { title: string }>(name: string, places: T[]): T | undefined {
+  const n = name.trim().toLowerCase();
+  if (!n) return undefined;
+  return places.find(p => p.title.toLowerCase() === n)
+    || places.find(p => p.title.toLowerCase().includes(n) || n.includes(p.title.toLowerCase()));
+}
+
+// Fills in coordinates for blocks whose location names a known place
+export function locateBlocks(itinerary: ItineraryDay[], places: { title: string; lat?: number; lng?: number }[]): ItineraryDay[] {
+  const located = places.filter(p => Number.isFinite(p.lat) && Number.isFinite(p.lng));
+  return itinerary.map(d => ({
+    ...d,
+    blocks: d.blocks.map(b => {
+      if (!b.location || (Number.isFinite(b.lat) && Number.isFinite(b.lng))) return b;
+      const place = matchPlace(b.location, located);
+      return place ? { ...b, lat: place.lat, lng: place.lng } : b;
+    })
+  }));
+}
@@ -0,0 +1,102 @@
+import { ItineraryDay } from '../types';
+import { matchPlace, parseClock, toClock } from './itinerary';
+
+/* ===========================
+   Itinerary sanity checks
+   =========================== */
+
+export interface ItineraryCheckContext {
+  days: number;
+  return_by: string; // "HH:MM" the group should be home by on the last day
+  return_travel_h: number; // Duration of the way home
+  known_places: string[]; // POIs, stops and the origin that visit blocks may refer to
+}
+
+const RETURN_TOLERANCE_MIN = 15;
+
+function checkCoverage(itinerary: ItineraryDay[], days: number): string[] {
+  const out: string[] = [];
+  const seen = new Map<number, number>();
+  itinerary.forEach(d => seen.set(d.day, (seen.get(d.day) || 0) + 1));
+  for (let day = 1; day <= days; day++) {
+    if (!seen.has(day)) out.push(`Day ${day} is missing from the itinerary.`);
+  }
+  seen.forEach((count, day) => {
+    if (day < 1 || day > days) out.push(`Day ${day} is outside the ${days}-day trip.`);
+    else if (count > 1) out.push(`Day ${day} appears ${count} times.`);
+  });
+  return out;
+}
+
+function checkTimings(d: ItineraryDay): string[] {
+  const out: string[] = [];
+  const timed: { start: number; end: number; title: string }[] = [];
+  d.blocks.forEach(b => {
+    const start = parseClock(b.start);
+    const end = parseClock(b.end);
+    if (start === null || end === null) {
+      out.push(`Day ${d.day}: "${b.title}" has no valid start or end time (00:00–23:59).`);
+      return;
+    }
+    if (end < start) {
+      out.push(`Day ${d.day}: "${b.title}" (${b.start}–${b.end}) runs past midnight.`);
+      return;
+    }
+    timed.push({ start, end, title: b.title });
+  });
+  timed.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < timed.length; i++) {
+    if (timed[i].start < timed[i - 1].end) {
+      out.push(`Day ${d.day}: "${timed[i].title}" starts at ${toClock(timed[i].start)}, before "${timed[i - 1].title}" ends at ${toClock(timed[i - 1].end)}.`);
+    }
+  }
+  return out;
+}
+
+function checkReturn(itinerary: ItineraryDay[], ctx: ItineraryCheckContext): string[] {
+  const last = itinerary.find(d => d.day === ctx.days);
+  if (!last || ctx.return_travel_h <= 0) return [];
+  const returnBy = parseClock(ctx.return_by);
+  const departures = last.blocks
+    .filter(b => b.kind === 'travel' && parseClock(b.start) !== null)
+    .sort((a, b) => parseClock(a.start)! - parseClock(b.start)!);
+  // The way home is the first travel block after the last sightseeing or hotel block (meals may be en route)
+  const lastActivityEnd = Math.max(-1, ...last.blocks.filter(b => b.kind !== 'travel' && b.kind !== 'meal').map(b => parseClock(b.end) ?? -1));
+  const departure = departures.find(b => parseClock(b.start)! >= lastActivityEnd) || departures[departures.length - 1];
+  if (!departure) return [`Day ${ctx.days}: no return journey is scheduled.`];
+
+  // Driver breaks and a lunch stop make the way home longer than the bare travel time; the schedule's last block shows how much
+  const leave = parseClock(departure.start)!;
+  const scheduledEnd = Math.max(-1, ...last.blocks
+    .filter(b => (b.kind === 'travel' || b.kind === 'meal') && (parseClock(b.start) ?? -1) >= leave)
+    .map(b => parseClock(b.end) ?? -1));
+  const arrival = Math.max(leave + Math.round(ctx.return_travel_h * 60), scheduledEnd);
+  if (returnBy !== null && arrival > returnBy + RETURN_TOLERANCE_MIN) {
+    const latest = returnBy - (arrival - leave);
+    return [`Day ${ctx.days}: leaving at ${departure.start} with ${((arrival - leave) / 60).toFixed(1)} h on the road gets home around ${arrival >= 1440 ? 'after midnight' : toClock(arrival)}, after ${ctx.return_by}. Leave by ${latest >= 0 ? toClock(latest) : 'the previous day'}.`];
+  }
+  return [];
+}
+
+function checkPlaces(itinerary: ItineraryDay[], knownPlaces: string[]): string[] {
+  const places = knownPlaces.map(title => ({ title }));
+  const out: string[] = [];
+  itinerary.forEach(d => d.blocks.forEach(b => {
+    if (b.kind !== 'visit' || !b.location) return;
+    if (!matchPlace(b.location, places)) out.push(`Day ${d.day}: "${b.location}" is not one of the researched POIs.`);
+  }));
+  return out;
+}
+
+/**
+ * Problems a teacher should look at before using the plan. An empty list means the
+ * schedule is internally consistent, not that every venue is open.
+ */
+export function validateItinerary(itinerary: ItineraryDay[], ctx: ItineraryCheckContext): string[] {
+  return [
+    ...checkCoverage(itinerary, ctx.days),
+    ...itinerary.flatMap(checkTimings),
+    ...checkReturn(itinerary, ctx),
+    ...(ctx.known_places.length ? checkPlaces(itinerary, ctx.known_places) : [])
+  ];
+}
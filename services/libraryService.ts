@@ -0,0 +1,198 @@
+import { LibraryStatus, PlanningSession, SavedPlanEntry, SavedPlanMeta, TripPlan } from '../types';
+import { STORES, idbDelete, idbGetAll, idbPutStrict } from './idb';
+import { upgradePlan, withSchemaVersion } from './planSchema';
+import { sessionHeadline } from './sessionService';
+import { foldText } from './focusTaxonomy';
+
+/* ===========================
+   Saved-plan library (IndexedDB)
+   =========================== */
+
+const LEGACY_STORAGE_KEY = 'idss_saved_plans'; // Plans saved before the library, moved over on first load
+
+export const LIBRARY_STATUSES: LibraryStatus[] = ['draft', 'proposed', 'approved', 'archived'];
+
+export type LibrarySort = 'updated' | 'name' | 'cost' | 'days';
+
+export interface LibraryQuery {
+  text: string;
+  status: LibraryStatus | '';
+  school_year: string;
+  tag: string;
+  sort: LibrarySort;
+}
+
+export const EMPTY_LIBRARY_QUERY: LibraryQuery = { text: '', status: '', school_year: '', tag: '', sort: 'updated' };
+
+// School years start in September: 2025-10-01 belongs to "2025/26"
+export function schoolYearOf(date: Date = new Date()): string {
+  const start = date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}/${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+export function defaultMeta(): SavedPlanMeta {
+  return { school_year: schoolYearOf(), class_name: '', author: '', status: 'draft', tags: [] };
+}
+
+export function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+}
+
+function createEntry(plan: TripPlan, name: string, meta: SavedPlanMeta): SavedPlanEntry {
+  const now = new Date().toISOString();
+  return {
+    id: `lib_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    plan,
+    meta,
+    created_at: now,
+    updated_at: now
+  };
+}
+
+let legacyMoved = false;
+
+async function moveLegacySaves(): Promise<void> {
+  if (legacyMoved) return;
+  legacyMoved = true;
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+    const plans: unknown[] = JSON.parse(raw);
+    const stored = new Set((await idbGetAll<SavedPlanEntry>(STORES.library)).map(e => e.id));
+    for (const [i, saved] of plans.entries()) {
+      if (saved === null) continue;
+      // Fixed ids, so a move that failed half-way neither duplicates plans nor restores deleted or edited ones
+      const id = `lib_legacy_${i}`;
+      if (!stored.has(id)) {
+        let plan: TripPlan;
+        try {
+          plan = upgradePlan(saved);
+        } catch (e) {
+          console.warn('Skipping unreadable saved plan', e);
+          continue;
+        }
+        await idbPutStrict(STORES.library, id, { ...createEntry(plan, plan.title, defaultMeta()), id });
+      }
+      // Moved plans leave a gap, so the ones left behind keep their index (and id) for the next try
+      plans[i] = null;
+    }
+    if (plans.every(p => p === null)) localStorage.removeItem(LEGACY_STORAGE_KEY);
+    else localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(plans));
+  } catch (e) {
+    // Keep the old key so nothing is lost; the next page load tries again
+    console.warn('Could not move saved plans into the library', e);
+  }
+}
+
+export async function loadLibrary(): Promise<SavedPlanEntry[]> {
+  await moveLegacySaves();
+  const entries = await idbGetAll<SavedPlanEntry>(STORES.library);
+  return entries.flatMap(e => {
+    try {
+      return [{ ...e, plan: upgradePlan(e.plan) }];
+    } catch (err) {
+      console.warn(`Skipping unreadable library entry ${e.id}`, err);
+      return [];
+    }
+  });
+}
+
+// Same plan as one already saved: the rule the old localStorage save used
+export function findSavedCopy(entries: SavedPlanEntry[], plan: TripPlan): SavedPlanEntry | undefined {
+  return entries.find(e => !e.session && e.plan.title === plan.title && e.plan.destination === plan.destination && e.plan.distance_km === plan.distance_km);
+}
+
+/** Adds a plan to the library unless an identical one is already there. Rejects when storage is full. */
+export async function savePlanToLibrary(plan: TripPlan): Promise<{ entry: SavedPlanEntry; existing: boolean }> {
+  const existing = findSavedCopy(await loadLibrary(), plan);
+  if (existing) return { entry: existing, existing: true };
+  const entry = createEntry(withSchemaVersion(plan), plan.title, defaultMeta());
+  await idbPutStrict(STORES.library, entry.id, entry);
+  return { entry, existing: false };
+}
+
+/** Stores the whole screen as a project; the session is checked again when it is opened. */
+export async function saveSessionToLibrary(session: PlanningSession, name: string, meta: SavedPlanMeta = defaultMeta()): Promise<SavedPlanEntry> {
+  const headline = sessionHeadline(session);
+  if (!headline) throw new Error('There are no plans to save yet.');
+  const stamped = { ...session, result: { ...session.result!, plans: session.result!.plans.map(withSchemaVersion) } };
+  const entry = createEntry(withSchemaVersion(headline), name, meta);
+  entry.session = stamped;
+  await idbPutStrict(STORES.library, entry.id, entry);
+  return entry;
+}
+
+export async function updateLibraryEntry(entry: SavedPlanEntry, patch: { name?: string; meta?: SavedPlanMeta }): Promise<SavedPlanEntry> {
+  const next = { ...entry, ...patch, updated_at: new Date().toISOString() };
+  await idbPutStrict(STORES.library, next.id, next);
+  return next;
+}
+
+export async function duplicateLibraryEntry(entry: SavedPlanEntry): Promise<SavedPlanEntry> {
+  const copy = createEntry(entry.plan, `${entry.name} (copy)`, { ...entry.meta, status: 'draft', tags: [...entry.meta.tags] });
+  if (entry.session) copy.session = entry.session;
+  await idbPutStrict(STORES.library, copy.id, copy);
+  return copy;
+}
+
+export function deleteLibraryEntry(id: string): Promise<void> {
+  return idbDelete(STORES.library, id);
+}
+
+// Everything a search can match: names, metadata and the plan's own text
+function searchableText(entry: SavedPlanEntry): string {
+  const { plan, meta } = entry;
+  return foldText([
+    entry.name,
+    plan.title,
+    plan.destination,
+    plan.why,
+    meta.school_year,
+    meta.class_name,
+    meta.author,
+    ...meta.tags,
+    ...(entry.session?.result?.plans.flatMap(p => [p.title, p.destination]) || []),
+    ...plan.itinerary.flatMap(d => [d.summary || '', ...d.blocks.flatMap(b => [b.title, b.location || ''])])
+  ].join(' '));
+}
+
+const SORTERS: Record<LibrarySort, (a: SavedPlanEntry, b: SavedPlanEntry) => number> = {
+  updated: (a, b) => b.updated_at.localeCompare(a.updated_at),
+  name: (a, b) => a.name.localeCompare(b.name),
+  cost: (a, b) => a.plan.cost_breakdown.per_student - b.plan.cost_breakdown.per_student,
+  days: (a, b) => a.plan.number_of_days - b.plan.number_of_days
+};
+
+// Every search word has to appear somewhere in the entry, ignoring case and diacritics
+export function queryLibrary(entries: SavedPlanEntry[], query: LibraryQuery): SavedPlanEntry[] {
+  const words = foldText(query.text).split(/\s+/).filter(Boolean);
+  return entries
+    .filter(e => !query.status || e.meta.status === query.status)
+    .filter(e => !query.school_year || e.meta.school_year === query.school_year)
+    .filter(e => !query.tag || e.meta.tags.includes(query.tag))
+    .filter(e => {
+      if (words.length === 0) return true;
+      const text = searchableText(e);
+      return words.every(w => text.includes(w));
+    })
+    .sort(SORTERS[query.sort]);
+}
+
+// Values offered by the filter dropdowns
+export function libraryFacets(entries: SavedPlanEntry[]): { school_years: string[]; tags: string[] } {
+  return {
+    school_years: Array.from(new Set(entries.map(e => e.meta.school_year).filter(Boolean))).sort().reverse(),
+    tags: Array.from(new Set(entries.flatMap(e => e.meta.tags))).sort()
+  };
+}
+
+export async function storageUsage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+import { ItineraryDay, Poi } from '../types';
+import { migrateItinerary, parseClock, toClock } from './itinerary';
+
+/* ===========================
+   LLM provider contract and shared prompts
+   =========================== */
+
+export interface SuggestRequest {
+  trip_type: string;
+  grade_level: string;
+  focus: string; // Human-readable, e.g. "History, Nature"
+  scope: string;
+  origin: { name: string; lat: number; lng: number };
+  count: number; // Destinations wanted
+}
+
+export interface ItineraryPrompt {
+  destinations: string[];
+  days: number;
+  grade: string;
+  focus: string;
+  tier: string;
+  origin: string;
+  travel_time_h: number; // Way home from the last stop
+  return_by: string;
+  pois: { label: string, url: string | null }[];
+  notes?: string;
+  coach_schedule?: string[];
+  corrections?: string[]; // Validator findings on a previous draft
+}
+
+export interface DescribeRequest {
+  pois: { label: string, url: string | null }[];
+  grade: string;
+  focus: string;
+}
+
+export interface PoiDescription {
+  name: string;
+  description: string;
+}
+
+export interface ItineraryDraft {
+  itinerary: ItineraryDay[];
+  poi_descriptions: PoiDescription[];
+}
+
+/**
+ * A language model backend. Implementations only throw when `signal` is aborted: any other
+ * failed or unconfigured call returns an empty result and the planner falls back to its
+ * rule-based output.
+ */
+export interface LlmProvider {
+  id: string;
+  label: string;
+  grounded: boolean; // Suggestions come with Google Maps grounding
+  available: () => boolean;
+  suggestDestinations: (req: SuggestRequest, signal?: AbortSignal) => Promise<Poi[]>;
+  generateItinerary: (req: ItineraryPrompt, signal?: AbortSignal) => Promise<ItineraryDraft>;
+  describePois: (req: DescribeRequest, signal?: AbortSignal) => Promise<PoiDescription[]>;
+}
+
+export const EMPTY_DRAFT: ItineraryDraft = { itinerary: [], poi_descriptions: [] };
+
+const MAX_PROMPT_POIS = 15;
+
+export function uniquePromptPois(pois: { label: string, url: string | null }[]): { label: string, url: string | null }[] {
+  return pois.filter((poi, index, self) => index === self.findIndex(t => t.label === poi.label)).slice(0, MAX_PROMPT_POIS);
+}
+
+export function suggestionPrompt(req: SuggestRequest): string {
+  return `Suggest ${req.count} distinct and best cities/regions for a ${req.trip_type} field trip for grade ${req.grade_level} students. Focus: ${req.focus}. Scope: ${req.scope}. Origin: ${req.origin.name}.`;
+}
+
+export function itineraryPrompt(req: ItineraryPrompt): string {
+  const { destinations, days, grade, focus, tier, origin, travel_time_h: travelTimeHours, return_by: returnBy, notes } = req;
+  const coachSchedule = req.coach_schedule || [];
+  const corrections = req.corrections || [];
+  const poiContext = uniquePromptPois(req.pois).map(p => `- ${p.label}${p.url ? ` (URL: ${p.url})` : ''}`).join('\n');
+  const tripPath = [origin, ...destinations].join(' -> ');
+
+  return `
+      You are a world-class educational travel specialist. Create a deeply detailed, logistical, and educational day-by-day itinerary for a ${days}-day school trip.
+
+      ROUTE: ${tripPath}
+      (The trip must visit these locations in order, starting from ${origin} and ENDING in ${origin})
+
+      PARAMETERS:
+      - Grade Level: ${grade}
+      - Primary Focus: ${focus}
+      - Budget Tier: ${tier} (STRICTLY ADHERE TO THIS FOR DINING CHOICES)
+      - One-way Return Travel Duration from last stop: Approx ${Math.ceil(travelTimeHours)} hours.
+      - SPECIAL NOTES/REQUIREMENTS: ${notes || "None"} (Ensure these are reflected in the itinerary!)
+
+      COACH DRIVING SCHEDULE (EU driver rules, plan the breaks into the day):
+      ${coachSchedule.length ? coachSchedule.join('\n      ') : 'Not a coach trip.'}
+
+      CONTEXTUAL POIs (Use these if relevant to the stops):
+      ${poiContext}
+
+      OUTPUT FORMAT:
+      Each day is a chronological list of time blocks. Every block has a 24-hour "start" and "end" ("HH:MM"),
+      a "kind" (travel, visit, meal, lodging or free), a short "title", the exact name of the place in "location"
+      (use the Contextual POI name when it is one of them), an estimated "cost_eur" per student where there is a cost,
+      and optional "notes".
+
+      CONTENT REQUIREMENTS:
+      1.  **Day 1**: Starts with a travel block departing ${origin} around 08:00, then arrival and an evening activity.
+      2.  **Middle Days**: Full sightseeing.
+          - **Morning**: 09:00–12:00 visit block at a specific site.
+          - **Lunch**: 12:00–13:30 meal block at a specific, real restaurant suitable for students and the budget tier: ${tier}.
+          - **Afternoon**: 14:00–17:00 visit block at a specific site.
+          - **Evening**: 18:30–20:30 meal block for dinner at a specific, real restaurant.
+      3.  **Last Day (Day ${days})**: CRITICAL REQUIREMENT:
+          - The group MUST arrive back in ${origin} by ${returnBy}.
+          - Calculate backwards: arrival in ${origin} at ${returnBy} with ${Math.ceil(travelTimeHours)}h of travel means departure no later than ${toClock((parseClock(returnBy) ?? 20 * 60) - Math.ceil(travelTimeHours) * 60)}.
+          - Structure: Morning visit (if time permits before departure) -> lodging block for check-out -> travel block "Departure for ${origin}" ending at the arrival time.
+          - Do NOT plan a full day of sightseeing if the return travel is long.
+
+      CRITICAL RULES:
+      - **NO generic timings** like "Morning". Every block has exact start and end times.
+      - **NO generic restaurants** like "Local Eatery". Use real names in "location".
+      - **Route Logic**: Ensure the itinerary splits time appropriately between the specific destinations listed.
+      - **Notes**: If special requirements (allergies, accessibility) are provided, explicitly mention how they are accommodated in the block notes (e.g. "nut-free options available").
+
+      ADDITIONAL TASK:
+      Provide a detailed, engaging educational description (approx 30-50 words) for EACH of the Contextual POIs listed above.
+      ${corrections.length ? `
+      PROBLEMS FOUND IN YOUR PREVIOUS DRAFT (fix every one of them):
+      ${corrections.map(c => `- ${c}`).join('\n      ')}` : ''}
+    `;
+}
+
+export function describePrompt(req: DescribeRequest): string {
+  return `
+      For grade ${req.grade} students on a school trip focused on ${req.focus}, write a detailed, engaging educational
+      description (approx 30-50 words) for EACH of these places:
+      ${uniquePromptPois(req.pois).map(p => `- ${p.label}${p.url ? ` (URL: ${p.url})` : ''}`).join('\n      ')}
+    `;
+}
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+export function parseJsonReply(text: string): any {
+  const cleaned = String(text || '').replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(cleaned || '{}');
+}
+
+function readDescriptions(raw: any): PoiDescription[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((d: any) => d && typeof d.name === 'string' && typeof d.description === 'string')
+    .map((d: any) => ({ name: d.name, description: d.description }));
+}
+
+export function readItineraryDraft(json: any): ItineraryDraft {
+  return {
+    itinerary: migrateItinerary(json?.itinerary).filter(d => d.blocks.length > 0),
+    poi_descriptions: readDescriptions(json?.poi_descriptions)
+  };
+}
+
+export function readPoiDescriptions(json: any): PoiDescription[] {
+  return readDescriptions(json?.poi_descriptions);
+}
@@ -0,0 +1,87 @@
+import { LlmProvider } from './llm';
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from './geminiLlm';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, createOpenAiProvider } from './openAiLlm';
+import { createMockProvider } from './mockLlm';
+
+/* ===========================
+   LLM backend selection
+   =========================== */
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible server',
+  mock: 'Mock (offline fixtures)'
+};
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  model: string; // Empty for the provider's default
+  base_url: string; // OpenAI-compatible only
+  api_key: string; // OpenAI-compatible only; Gemini keys come from the build environment
+}
+
+const CONFIG_KEY = 'idss_llm_config';
+
+export function defaultModel(provider: LlmProviderId): string {
+  if (provider === 'gemini') return DEFAULT_GEMINI_MODEL;
+  if (provider === 'openai') return DEFAULT_OPENAI_MODEL;
+  return '';
+}
+
+function isProviderId(id: unknown): id is LlmProviderId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(LLM_PROVIDER_LABELS, id);
+}
+
+// Build-time defaults (VITE_LLM_*), so a deployment can ship with a self-hosted model preselected
+export function envLlmConfig(): LlmConfig {
+  const provider = process.env.VITE_LLM_PROVIDER;
+  return {
+    provider: isProviderId(provider) ? provider : 'gemini',
+    model: process.env.VITE_LLM_MODEL || '',
+    base_url: process.env.VITE_LLM_BASE_URL || '',
+    api_key: process.env.VITE_LLM_API_KEY || ''
+  };
+}
+
+// Settings saved in this browser override the build defaults field by field
+export function loadLlmConfig(): LlmConfig {
+  const config = envLlmConfig();
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    if (!raw) return config;
+    const saved = JSON.parse(raw);
+    if (isProviderId(saved.provider)) config.provider = saved.provider;
+    (['model', 'base_url', 'api_key'] as const).forEach(k => {
+      if (typeof saved[k] === 'string') config[k] = saved[k];
+    });
+  } catch (e) {
+    console.warn('llm config load fail', e);
+  }
+  return config;
+}
+
+export function saveLlmConfig(config: LlmConfig) {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+}
+
+export function resetLlmConfig() {
+  localStorage.removeItem(CONFIG_KEY);
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  const model = config.model.trim() || defaultModel(config.provider);
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiProvider({ base_url: config.base_url.trim() || DEFAULT_OPENAI_BASE_URL, model, api_key: config.api_key.trim() || undefined });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(model);
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  return createLlmProvider(loadLlmConfig());
+}
@@ -1,25 +1,27 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GEONAMES_USER, ORS_KEY, OPENTRIPMAP_KEY, RATES, SUGGESTED_CITIES, IDSS_COORDS } from '../constants';
-import { TripFormState, PlannerResult, TripPlan, GeoLocation, Poi, CostBreakdown, ItineraryDay, SourceLink } from '../types';
+import { SUGGESTED_CITIES, IDSS_COORDS, NON_ROAD_TIMING, TRANSPORT_MODE_LABELS, ITINERARY_REPROMPTS } from '../constants';
+import { TripFormState, PlannerResult, TripPlan, PlanTier, GeoLocation, Poi, CostBreakdown, ItineraryDay, SourceLink, SourceProvenance, BudgetConstraint, RateCard, TransportMode, RouteLeg, LegCost, RouteOptimization, DriverCompliance, PlanVariant } from '../types';
+import { parseBudget, evaluateBudget, exceedsBudget } from './budgetService';
+import { loadRateCards, selectRateCard, rateCardRef, toIsoDate } from './rateCardService';
+import { haversineDistance } from './geoUtils';
+import { optimizeStopOrder } from './routeOptimizer';
+import { assignDrivingDays, checkDriverHours, describeDriverDay } from './driverHours';
+import { idbGet, idbPut, STORES } from './idb';
+import { missingDirectKeys, serviceEnabled, serviceFetch } from './apiGateway';
+import { gatherPois, offlinePois } from './poiProviders';
+import { templateItinerary } from './templateItinerary';
+import { locateBlocks } from './itinerary';
+import { ItineraryDraft, ItineraryPrompt, LlmProvider } from './llm';
+import { getLlmProvider } from './llmConfig';
+import { ItineraryCheckContext, validateItinerary } from './itineraryValidator';
+import { describeFocus, parseFocus } from './focusTaxonomy';
+import { GenerationOptions, progressReporter } from './progress';
+import { mapPool, sharedRequest } from './requestPool';
+import { PLAN_TIERS, VARIATION_AXES, VariantSpec, clampPlanCount, destinationsWanted, planVariants, variantValue } from './planVariants';
 
 /* ===========================
    Utilities
    =========================== */
 
-// Helper to get API Key securely with rotation
-const getGeminiApiKey = (): string | undefined => {
-  const keysString = process.env.VITE_GEMINI_API_KEYS || process.env.API_KEY;
-
-  if (!keysString) return undefined;
-
-  const keys = keysString.split(',').map(k => k.trim()).filter(k => k.length > 0);
-
-  if (keys.length === 0) return undefined;
-
-  const randomIndex = Math.floor(Math.random() * keys.length);
-  return keys[randomIndex];
-};
-
 export function normalizeDate(input: string): string | null {
   if (!input) return null;
   let s = String(input).trim();
@@ -73,156 +75,153 @@ function safe(n: number): number {
   return Math.round((n + Number.EPSILON) * 100) / 100;
 }
 
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3;
-  const toRad = (d: number) => d * Math.PI / 180;
-  const φ1 = toRad(lat1), φ2 = toRad(lat2);
-  const Δφ = toRad(lat2 - lat1), Δλ = toRad(lon2 - lon1);
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function cleanJsonString(str: string): string {
-  if (!str) return '{}';
-  return str.replace(/```json/g, '').replace(/```/g, '').trim();
-}
-
 /* ===========================
    API Calls
    =========================== */
 
-export async function geocodeGeoNames(query: string): Promise<GeoLocation | null> {
-  if (!GEONAMES_USER) return null;
-  const url = `https://secure.geonames.org/searchJSON?q=${encodeURIComponent(query)}&maxRows=1&username=${encodeURIComponent(GEONAMES_USER)}`;
+async function searchGeoNames(query: string, maxRows: number, signal?: AbortSignal): Promise<GeoLocation[]> {
+  if (!serviceEnabled('geonames')) return [];
   try {
-    const res = await fetch(url);
+    const res = await serviceFetch('geonames', '/searchJSON', { query: { q: query, maxRows }, signal });
     if (!res.ok) throw new Error('GeoNames error ' + res.status);
     const j = await res.json();
-    if (j.geonames && j.geonames.length) {
-      const g = j.geonames[0];
-      return {
-        lat: parseFloat(g.lat),
-        lng: parseFloat(g.lng),
-        name: g.name + (g.adminName1 ? (', ' + g.adminName1) : ''),
-        source: 'geonames',
-        url: `https://www.geonames.org/${g.geonameId}`
-      };
-    }
+    return (j.geonames || []).map((g: any) => ({
+      lat: parseFloat(g.lat),
+      lng: parseFloat(g.lng),
+      name: g.name + (g.adminName1 ? (', ' + g.adminName1) : ''),
+      source: 'geonames',
+      url: `https://www.geonames.org/${g.geonameId}`,
+      country: g.countryName || undefined,
+      country_code: g.countryCode || undefined,
+      admin_region: g.adminName1 || undefined
+    }));
   } catch (e) {
     console.warn('geonames fail', e);
   }
-  return null;
+  return [];
 }
 
-export async function geocodeORS(query: string): Promise<GeoLocation | null> {
-  if (!ORS_KEY) return null;
-  const url = `https://api.openrouteservice.org/geocode/search?api_key=${ORS_KEY}&text=${encodeURIComponent(query)}&size=1`;
+async function searchORS(query: string, size: number, signal?: AbortSignal): Promise<GeoLocation[]> {
+  if (!serviceEnabled('ors')) return [];
   try {
-    const res = await fetch(url);
+    const res = await serviceFetch('ors', '/geocode/search', { query: { text: query, size }, signal });
     if (!res.ok) throw new Error('ORS geocode ' + res.status);
     const j = await res.json();
-    if (j.features && j.features.length) {
-      const f = j.features[0];
+    return (j.features || []).map((f: any) => {
       const [lon, lat] = f.geometry.coordinates;
       return {
         lat,
         lng: lon,
         name: f.properties.label || f.text,
         source: 'ors',
-        url: f.properties?.website || null
+        url: f.properties?.website || null,
+        country: f.properties?.country || undefined,
+        country_code: f.properties?.country_code || undefined,
+        admin_region: f.properties?.region || undefined
       };
-    }
+    });
   } catch (e) {
     console.warn('ors geocode fail', e);
   }
-  return null;
+  return [];
 }
 
-async function wikidataPOIs(lat: number, lng: number, radius_km = 15, focus = 'museum'): Promise<Poi[]> {
-  let instanceQ = 'Q3350036'; // museum
-  const lower = (focus || '').toLowerCase();
-  if (lower.includes('science') || lower.includes('nauka') || lower.includes('education')) instanceQ = 'Q201184';
-  if (lower.includes('park') || lower.includes('zabava')) instanceQ = 'Q7889';
-  
-  const sparql = `
-    SELECT ?item ?itemLabel ?coord ?site WHERE {
-      SERVICE wikibase:box { ?item wdt:P625 ?coord . bd:serviceParam wikibase:center "Point(${lng} ${lat})"^^geo:wktLiteral . bd:serviceParam wikibase:radius "${radius_km}" . }
-      ?item wdt:P31/wdt:P279* wd:${instanceQ}.
-      OPTIONAL { ?item wdt:P856 ?site. }
-      SERVICE wikibase:label { bd:serviceParam wikibase:language "[AUTO_LANGUAGE],en,bs,de,it" }
-    } LIMIT 50
-  `;
-  const url = 'https://query.wikidata.org/sparql?format=json&query=' + encodeURIComponent(sparql);
-  try {
-    const r = await fetch(url, { headers: { 'Accept': 'application/sparql-results+json' } });
-    if (!r.ok) throw new Error('Wikidata ' + r.status);
-    const j = await r.json();
-    return j.results.bindings.map((b: any) => {
-      const coord = b.coord.value.replace('Point(', '').replace(')', '').split(' ');
-      return {
-        label: b.itemLabel.value,
-        lat: parseFloat(coord[1]),
-        lng: parseFloat(coord[0]),
-        url: b.site ? b.site.value : null,
-        source: 'wikidata'
-      };
-    });
-  } catch (e) {
-    console.warn('wikidata fail', e);
-    return [];
-  }
+export async function geocodeGeoNames(query: string): Promise<GeoLocation | null> {
+  return (await searchGeoNames(query, 1))[0] || null;
 }
 
-async function fetchOpenTripMapPOIs(lat: number, lng: number, radius_m = 10000): Promise<Poi[]> {
-  if (!OPENTRIPMAP_KEY) return [];
-  
-  const kinds = 'interesting_places'; 
-  const rate = '2';
-  
-  const url = `https://api.opentripmap.com/0.1/en/places/radius?radius=${radius_m}&lon=${lng}&lat=${lat}&kinds=${kinds}&rate=${rate}&format=json&limit=15&apikey=${OPENTRIPMAP_KEY}`;
+export async function geocodeORS(query: string): Promise<GeoLocation | null> {
+  return (await searchORS(query, 1))[0] || null;
+}
 
-  try {
-    const res = await fetch(url);
-    if (!res.ok) throw new Error('OTM error ' + res.status);
-    const data = await res.json();
-    
-    // FIX: Check if data is an array before mapping.
-    // If rate limit exceeded or error, API might return an object with error message.
-    if (!Array.isArray(data)) {
-        console.warn('OpenTripMap returned non-array:', data);
-        return [];
-    }
-    
-    return data.map((item: any) => ({
-      label: item.name,
-      lat: item.point.lat,
-      lng: item.point.lon,
-      url: `https://opentripmap.com/en/card/${item.xid}`, 
-      source: 'opentripmap'
-    })).filter((p: any) => p.label && p.label.trim().length > 0);
-  } catch (e) {
-    console.warn('OpenTripMap fail', e);
-    return [];
+/* ===========================
+   Cached Geocoding
+   =========================== */
+
+const GEOCODE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const GEOCODE_CANDIDATES = 5;
+
+interface GeocodeCacheEntry {
+  query: string;
+  candidates: GeoLocation[];
+  cached_at: number;
+}
+
+export function normalizeQuery(query: string): string {
+  return query
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s,]+/g, ' ')
+    .trim();
+}
+
+// Top matches for a place name, served from the local cache when possible
+export async function geocodeCandidates(query: string, signal?: AbortSignal): Promise<GeoLocation[]> {
+  const key = normalizeQuery(query);
+  if (!key) return [];
+  return sharedRequest(`geocode|${key}`, () => lookupCandidates(query, key, signal), { signal, keep: list => list.length > 0 });
+}
+
+async function lookupCandidates(query: string, key: string, signal?: AbortSignal): Promise<GeoLocation[]> {
+  const cached = await idbGet<GeocodeCacheEntry>(STORES.geocode, key);
+  if (cached && Date.now() - cached.cached_at < GEOCODE_CACHE_TTL_MS && cached.candidates.length > 0) {
+    return cached.candidates;
+  }
+
+  let candidates = await searchGeoNames(query, GEOCODE_CANDIDATES, signal);
+  if (candidates.length === 0 && !signal?.aborted) candidates = await searchORS(query, GEOCODE_CANDIDATES, signal);
+  if (candidates.length > 0) {
+    await idbPut<GeocodeCacheEntry>(STORES.geocode, key, { query, candidates, cached_at: Date.now() });
+  } else if (cached) {
+    // Offline or rate-limited: stale results beat none
+    return cached.candidates;
   }
+  return candidates;
+}
+
+export async function geocode(query: string, signal?: AbortSignal): Promise<GeoLocation | null> {
+  return (await geocodeCandidates(query, signal))[0] || null;
+}
+
+interface RouteSegment {
+  distance_m: number;
+  duration_s: number;
+  polyline: [number, number][];
+}
+
+interface RouteInfo {
+  distance_m: number | null;
+  duration_s: number | null;
+  polyline: [number, number][];
+  segments: RouteSegment[]; // One per pair of consecutive waypoints
 }
 
-async function orsRouteDistance(coordinates: [number, number][]) {
-  if (!ORS_KEY) return null;
+function orsRouteDistance(coordinates: [number, number][], signal?: AbortSignal): Promise<RouteInfo | null> {
+  return sharedRequest(`route|${JSON.stringify(coordinates)}`, () => fetchOrsRoute(coordinates, signal), { signal, keep: r => r !== null });
+}
+
+async function fetchOrsRoute(coordinates: [number, number][], signal?: AbortSignal): Promise<RouteInfo | null> {
+  if (!serviceEnabled('ors')) return null;
   try {
-    const res = await fetch('https://api.openrouteservice.org/v2/directions/driving-car/geojson', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'Authorization': ORS_KEY },
-      body: JSON.stringify({ coordinates })
-    });
+    const res = await serviceFetch('ors', '/v2/directions/driving-car/geojson', { body: { coordinates }, signal });
     if (!res.ok) throw new Error('ORS directions ' + res.status);
     const j = await res.json();
-    const summary = j.features?.[0]?.properties?.summary || null;
+    const props = j.features?.[0]?.properties;
+    const summary = props?.summary || null;
     const coords = j.features?.[0]?.geometry?.coordinates || [];
+    const polyline = coords.map((c: any) => [c[1], c[0]]) as [number, number][];
+    const wayPoints: number[] = props?.way_points || [];
+    const segments: RouteSegment[] = (props?.segments || []).map((seg: any, i: number) => ({
+      distance_m: seg.distance || 0,
+      duration_s: seg.duration || 0,
+      polyline: wayPoints.length > i + 1 ? polyline.slice(wayPoints[i], wayPoints[i + 1] + 1) : []
+    }));
     return {
       distance_m: summary ? summary.distance : null,
       duration_s: summary ? summary.duration : null,
-      polyline: coords.map((c: any) => [c[1], c[0]]) as [number, number][]
+      polyline,
+      segments
     };
   } catch (e) {
     console.warn('ors route fail', e);
@@ -230,249 +229,198 @@ async function orsRouteDistance(coordinates: [number, number][]) {
   }
 }
 
-async function orsPOIsAround(lon: number, lat: number, radius_m = 7000) {
-  if (!ORS_KEY) return [];
-  const deg = radius_m / 111320;
-  const bbox = [lon - deg, lat - deg, lon + deg, lat + deg];
-  const body = {
-    request: "pois",
-    geometry: { bbox: bbox, geojson: { type: "Polygon", coordinates: [[[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[2], bbox[3]], [bbox[0], bbox[3]], [bbox[0], bbox[1]]]] } },
-    filters: { "osm_tags": { 'tourism': 'museum' } },
-    size: 50
-  };
-  try {
-    const res = await fetch('https://api.openrouteservice.org/pois', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'Authorization': ORS_KEY },
-      body: JSON.stringify(body)
-    });
-    if (!res.ok) throw new Error('ORS POI error ' + res.status);
-    const j = await res.json();
-    return (j.features || []).map((f: any) => {
-      const c = f.geometry.coordinates;
-      return {
-        label: f.properties.name || f.properties.tags?.name || f.properties.type || 'POI',
-        lat: c[1],
-        lng: c[0],
-        url: f.properties.website || f.properties.url || null,
-        source: 'ors'
-      };
-    });
-  } catch (e) {
-    console.warn('ORS POI fail', e);
-    return [];
+/* ===========================
+   Suggested places
+   =========================== */
+
+const MAPS_URI_COORDS = [
+  /@(-?\d+\.\d+),(-?\d+\.\d+)/,
+  /!3d(-?\d+\.\d+)!4d(-?\d+\.\d+)/,
+  /[?&](?:q|query|ll|center)=(-?\d+\.\d+),\s*(-?\d+\.\d+)/
+];
+const MAPS_URI_MATCH_KM = 25; // Geocoder hit close enough to the Maps pin to borrow its country
+
+export function coordsFromMapsUri(uri: string | null): { lat: number; lng: number } | null {
+  if (!uri) return null;
+  let decoded = uri;
+  try { decoded = decodeURIComponent(uri); } catch { /* keep raw */ }
+  for (const re of MAPS_URI_COORDS) {
+    const m = decoded.match(re);
+    if (!m) continue;
+    const lat = parseFloat(m[1]);
+    const lng = parseFloat(m[2]);
+    if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0)) return { lat, lng };
   }
+  return null;
+}
+
+export function hasLocation(p: { lat?: number; lng?: number; resolution?: string }): boolean {
+  return p.resolution !== 'unresolved' && Number.isFinite(p.lat) && Number.isFinite(p.lng);
+}
+
+interface ResolvedPlace extends Poi {
+  country?: string;
+}
+
+/**
+ * Gives a Maps-grounded suggestion real coordinates: the pin in its Maps URI if there is one,
+ * otherwise the geocoder match closest to `near`. Places neither can locate stay 'unresolved'.
+ */
+async function resolveGroundedPlace(poi: Poi, near: { lat: number; lng: number }, signal?: AbortSignal): Promise<ResolvedPlace> {
+  const pinned = coordsFromMapsUri(poi.url);
+  const matches = await geocodeCandidates(poi.label, signal);
+  const anchor = pinned || near;
+  const ranked = matches
+    .map(m => ({ m, km: haversineDistance(anchor.lat, anchor.lng, m.lat, m.lng) }))
+    .sort((a, b) => a.km - b.km);
+
+  if (pinned) {
+    const nearby = ranked.find(r => r.km <= MAPS_URI_MATCH_KM);
+    return { ...poi, lat: pinned.lat, lng: pinned.lng, resolution: 'maps_uri', country: nearby?.m.country };
+  }
+  if (ranked.length > 0) {
+    const best = ranked[0].m;
+    return { ...poi, lat: best.lat, lng: best.lng, resolution: 'geocoded', country: best.country };
+  }
+  return { ...poi, lat: NaN, lng: NaN, resolution: 'unresolved' };
+}
+
+function poiProvenance(p: Poi): SourceProvenance {
+  const grounded = p.source === 'google-maps';
+  return {
+    provider: p.source,
+    grounded,
+    resolution: p.resolution || 'provider',
+    maps_uri: grounded && p.url ? p.url : undefined,
+    also_from: p.also_from
+  };
+}
+
+function poiSource(p: Poi, description?: string): SourceLink {
+  const located = hasLocation(p);
+  return {
+    url: p.url,
+    title: p.label,
+    source: p.source,
+    verified: !!p.url,
+    description,
+    lat: located ? p.lat : undefined,
+    lng: located ? p.lng : undefined,
+    provenance: poiProvenance(p)
+  };
 }
 
 /* ===========================
-   Gemini AI Integration
+   Logic
    =========================== */
 
-async function getGeminiSuggestions(prompt: string, lat: number, lng: number): Promise<Poi[]> {
-  const apiKey = getGeminiApiKey();
-  if (!apiKey) {
-    return [];
-  }
 
-  try {
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: { latitude: lat, longitude: lng }
-          }
-        }
-      }
-    });
+// Road route modelled as a closed loop: origin -> stops -> back to origin
+async function computeRoute(origin: GeoLocation, stops: GeoLocation[], signal?: AbortSignal): Promise<RouteInfo> {
+  const waypoints = [origin, ...stops, origin];
+  const coords: [number, number][] = waypoints.map(w => [w.lng, w.lat]);
 
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (!chunks) return [];
-
-    const results: Poi[] = [];
-    const seen = new Set<string>();
-
-    for (const chunk of chunks) {
-      if (chunk.maps?.title) {
-        const title = chunk.maps.title;
-        if (!seen.has(title)) {
-          seen.add(title);
-          results.push({
-            label: title,
-            lat: 0, 
-            lng: 0,
-            url: chunk.maps.uri || null,
-            source: 'google-maps'
-          });
-        }
-      }
-    }
-    return results;
-  } catch (e) {
-    console.warn("Gemini Maps Grounding error:", e);
-    return [];
+  const routeInfo = await orsRouteDistance(coords, signal);
+  if (routeInfo && routeInfo.distance_m && routeInfo.segments.length === waypoints.length - 1) return routeInfo;
+
+  let totalMeters = 0;
+  const poly: [number, number][] = [[origin.lat, origin.lng]];
+  const segments: RouteSegment[] = [];
+  for (let i = 1; i < waypoints.length; i++) {
+    const prev = waypoints[i - 1], s = waypoints[i];
+    const meters = haversineDistance(prev.lat, prev.lng, s.lat, s.lng);
+    totalMeters += meters;
+    poly.push([s.lat, s.lng]);
+    segments.push({ distance_m: meters, duration_s: (meters / 50000) * 3600, polyline: [[prev.lat, prev.lng], [s.lat, s.lng]] });
   }
+  return {
+    distance_m: totalMeters,
+    duration_s: (totalMeters / 50000) * 3600,
+    polyline: poly,
+    segments
+  };
 }
 
-interface GenItineraryResult {
-  itinerary: ItineraryDay[];
-  poi_descriptions: { name: string, description: string }[];
-}
-
-async function generateGeminiItinerary(
-  destinations: string[],
-  days: number,
-  grade: string,
-  focus: string,
-  tier: string,
-  origin: string,
-  travelTimeHours: number, 
-  poiList: { label: string, url: string | null }[],
-  notes?: string
-): Promise<GenItineraryResult> {
-  const apiKey = getGeminiApiKey();
-  if (!apiKey) {
-    return { itinerary: [], poi_descriptions: [] };
-  }
+// Re-times a road segment for the chosen mode; flights and ferries are drawn as straight lines
+function shapeLeg(from: GeoLocation, to: GeoLocation, mode: TransportMode, segment?: RouteSegment): RouteLeg {
+  const straight: [number, number][] = [[from.lat, from.lng], [to.lat, to.lng]];
+  const roadKm = segment ? segment.distance_m / 1000 : haversineDistance(from.lat, from.lng, to.lat, to.lng) / 1000;
+  const timing = NON_ROAD_TIMING[mode];
 
-  try {
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const uniquePois = poiList.filter((poi, index, self) => 
-      index === self.findIndex((t) => (t.label === poi.label))
-    ).slice(0, 15);
-
-    const poiContext = uniquePois.map(p => `- ${p.label}${p.url ? ` (URL: ${p.url})` : ''}`).join('\n');
-    
-    const tripPath = [origin, ...destinations].join(' -> ');
-
-    const prompt = `
-      You are a world-class educational travel specialist. Create a deeply detailed, logistical, and educational day-by-day itinerary for a ${days}-day school trip.
-      
-      ROUTE: ${tripPath}
-      (The trip must visit these locations in order, starting from ${origin} and ENDING in ${origin})
-
-      PARAMETERS:
-      - Grade Level: ${grade}
-      - Primary Focus: ${focus}
-      - Budget Tier: ${tier} (STRICTLY ADHERE TO THIS FOR DINING CHOICES)
-      - One-way Return Travel Duration from last stop: Approx ${Math.ceil(travelTimeHours)} hours.
-      - SPECIAL NOTES/REQUIREMENTS: ${notes || "None"} (Ensure these are reflected in the itinerary!)
-      
-      CONTEXTUAL POIs (Use these if relevant to the stops):
-      ${poiContext}
-
-      STRICT OUTPUT FORMAT:
-      For EVERY day, provide a chronological list of activities.
-      EVERY activity block MUST start with a specific time range in this exact format: "HH:MM AM - HH:MM PM".
-
-      CONTENT REQUIREMENTS:
-      1.  **Day 1**: "08:00 AM - Departure from ${origin}..." followed by travel, arrival, and evening activity.
-      2.  **Middle Days**: Full sightseeing.
-          - **Morning**: "09:00 AM - 12:00 PM - Visit [Specific Site]..."
-          - **Lunch**: "12:00 PM - 01:30 PM - Lunch at [Specific Restaurant Name]..." (MUST be a real, specific place suitable for students and the budget tier: ${tier}).
-          - **Afternoon**: "02:00 PM - 05:00 PM - Visit [Specific Site]..."
-          - **Evening**: "06:30 PM - 08:30 PM - Dinner at [Specific Restaurant Name]..."
-      3.  **Last Day (Day ${days})**: CRITICAL REQUIREMENT:
-          - The group MUST arrive back in ${origin} by ~20:00 or 21:00.
-          - Calculate backwards: If arrival in ${origin} is 20:00, and travel is ${Math.ceil(travelTimeHours)}h, departure MUST be around ${Math.max(0, 20 - Math.ceil(travelTimeHours))}:00.
-          - Structure: Morning Activity (if time permits before departure) -> Checkout -> "Departure for ${origin}" -> Arrival.
-          - Do NOT plan a full day of sightseeing if the return travel is long.
-      
-      CRITICAL RULES:
-      - **NO generic timings** like "Morning". Use "09:00 AM - 12:00 PM".
-      - **NO generic restaurants** like "Local Eatery". Use real names.
-      - **Route Logic**: Ensure the itinerary splits time appropriately between the specific destinations listed.
-      - **Notes**: If special requirements (allergies, accessibility) are provided, explicitly mention how they are accommodated (e.g. "Lunch at X (nut-free options available)").
-
-      ADDITIONAL TASK:
-      Provide a detailed, engaging educational description (approx 30-50 words) for EACH of the Contextual POIs listed above.
-
-      OUTPUT SCHEMA:
-      Return ONLY valid JSON:
-      {
-        "itinerary": [
-          { 
-            "day": 1, 
-            "description": "...", 
-            "poi_name": "Exact Name of POI if applicable (optional)"
-          },
-          ...
-        ],
-        "poi_descriptions": [
-          { "name": "Name from list", "description": "..." }
-        ]
-      }
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            itinerary: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  day: { type: Type.INTEGER },
-                  description: { type: Type.STRING, description: "Detailed daily agenda with timings and specific restaurants." },
-                  poi_name: { type: Type.STRING, description: "Exact name of a POI mentioned in this day's description, if any, that matches a Contextual POI." }
-                },
-                required: ['day', 'description']
-              }
-            },
-            poi_descriptions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  description: { type: Type.STRING }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+  if (timing) {
+    const km = mode === 'train' ? roadKm : haversineDistance(from.lat, from.lng, to.lat, to.lng) / 1000;
+    return {
+      from: from.name,
+      to: to.name,
+      mode,
+      distance_km: safe(km),
+      duration_h: safe(km / timing.speed_kmh + timing.overhead_h),
+      polyline: mode === 'train' && segment?.polyline.length ? segment.polyline : straight
+    };
+  }
 
-    const json = JSON.parse(cleanJsonString(response.text));
-    let it = [];
-    let pd = [];
-
-    if (json.itinerary && Array.isArray(json.itinerary)) {
-      it = json.itinerary
-        .sort((a: any, b: any) => a.day - b.day)
-        .map((item: any) => ({
-          day: item.day,
-          activity: item.description,
-          poi_name: item.poi_name // Capture the POI reference
-        }));
-    }
-    
-    if (json.poi_descriptions && Array.isArray(json.poi_descriptions)) {
-      pd = json.poi_descriptions;
-    }
+  return {
+    from: from.name,
+    to: to.name,
+    mode,
+    distance_km: safe(roadKm),
+    duration_h: safe(segment ? segment.duration_s / 3600 : roadKm / 50),
+    polyline: segment?.polyline.length ? segment.polyline : straight
+  };
+}
 
-    return { itinerary: it, poi_descriptions: pd };
-  } catch (e) {
-    console.warn("Gemini Itinerary Gen Error", e);
-    return { itinerary: [], poi_descriptions: [] };
+// `modes[i]` is the mode used to reach `stops[i]`; only consulted for mixed-mode trips.
+// The final leg is the way home from the last stop.
+function buildLegs(origin: GeoLocation, stops: GeoLocation[], route: RouteInfo, params: TripFormState, modes: TransportMode[]): RouteLeg[] {
+  const mixed = params.transport_pref === 'mixed';
+  const modeFor = (i: number): TransportMode => mixed ? (modes[i] || 'bus') : params.transport_pref as TransportMode;
+  const waypoints = [origin, ...stops];
+
+  const legs = stops.map((to, i) => shapeLeg(waypoints[i], to, modeFor(i), route.segments[i]));
+  if (route.segments.length > stops.length && stops.length > 0) {
+    const returnMode = mixed ? params.return_mode : params.transport_pref as TransportMode;
+    legs.push(shapeLeg(stops[stops.length - 1], origin, returnMode, route.segments[stops.length]));
   }
+  return legs;
 }
 
-/* ===========================
-   Logic
-   =========================== */
+function legCost(leg: RouteLeg, people: number, rateCard: RateCard): LegCost {
+  const RATES = rateCard.rates;
+  let cost = 0;
+  let note = '';
+
+  // Per-person averages in the rate card are return fares, so a single leg is charged half
+  if (leg.mode === 'plane') {
+    cost = people * RATES.flight_per_person_avg / 2;
+    note = `Flight for ${people} pax @ ~${RATES.flight_per_person_avg / 2} EUR one-way`;
+  } else if (leg.mode === 'train') {
+    cost = people * RATES.train_per_person_avg / 2;
+    note = `Train for ${people} pax @ ~${RATES.train_per_person_avg / 2} EUR one-way`;
+  } else if (leg.mode === 'ferry') {
+    cost = people * RATES.ferry_per_person_avg / 2;
+    note = `Ferry for ${people} pax @ ~${RATES.ferry_per_person_avg / 2} EUR one-way`;
+  } else if (leg.mode === 'private_car') {
+    cost = leg.distance_km * RATES.car_cost_per_km;
+    note = `Private Car ~${leg.distance_km.toFixed(0)} km @ ${RATES.car_cost_per_km} EUR/km`;
+  } else {
+    const buses = Math.max(1, Math.ceil(people / RATES.bus_capacity));
+    cost = buses * leg.distance_km * RATES.bus_cost_per_km_per_bus;
+    note = `${buses} bus(es) × ~${leg.distance_km.toFixed(0)} km × ${RATES.bus_cost_per_km_per_bus} EUR/km`;
+  }
 
-function estimateCosts(params: TripFormState, distance_km: number, days: number, planTier: 'budget' | 'balanced' | 'premium'): { breakdown: CostBreakdown } {
+  return {
+    from: leg.from,
+    to: leg.to,
+    mode: leg.mode,
+    distance_km: leg.distance_km,
+    duration_h: leg.duration_h,
+    cost: safe(cost),
+    note
+  };
+}
+
+function estimateCosts(params: TripFormState, distance_km: number, days: number, planTier: PlanTier, rateCard: RateCard, legs: RouteLeg[] = [], secondDriverDays = 0): { breakdown: CostBreakdown } {
+  const RATES = rateCard.rates;
   const students = params.num_students;
   const providedTeachers = params.teachers ? params.teachers.split(',').filter(s => s.trim().length > 0).length : 0;
   const requiredTeachers = Math.max(1, Math.ceil(students / 15)); 
@@ -481,39 +429,48 @@ function estimateCosts(params: TripFormState, distance_km: number, days: number,
 
   let transportCostTotal = 0;
   let transportNote = '';
+  let legCosts: LegCost[] | undefined;
   
-  if (params.transport_pref === 'plane') {
+  if (params.transport_pref === 'mixed' && legs.length > 0) {
+    legCosts = legs.map(l => legCost(l, people, rateCard));
+    transportCostTotal = legCosts.reduce((sum, l) => sum + l.cost, 0);
+    transportNote = `Mixed: ${legs.map(l => TRANSPORT_MODE_LABELS[l.mode]).join(' → ')} (${legs.length} legs)`;
+  } else if (params.transport_pref === 'plane') {
     transportCostTotal = people * RATES.flight_per_person_avg;
     transportNote = `Flights for ${people} pax @ ~${RATES.flight_per_person_avg} EUR`;
   } else if (params.transport_pref === 'train') {
     transportCostTotal = people * RATES.train_per_person_avg;
     transportNote = `Trains for ${people} pax @ ~${RATES.train_per_person_avg} EUR`;
   } else if (params.transport_pref === 'ferry') {
-    transportCostTotal = people * 80;
-    transportNote = `Ferry for ${people} pax @ ~80 EUR`;
+    transportCostTotal = people * RATES.ferry_per_person_avg;
+    transportNote = `Ferry for ${people} pax @ ~${RATES.ferry_per_person_avg} EUR`;
   } else if (params.transport_pref === 'private_car') {
-    transportCostTotal = distance_km * 0.30 * 2;
-    transportNote = `Private Car ~${distance_km.toFixed(0)} km (round-trip) @ 0.30 EUR/km`;
+    transportCostTotal = distance_km * RATES.car_cost_per_km;
+    transportNote = `Private Car ~${distance_km.toFixed(0)} km (full loop) @ ${RATES.car_cost_per_km} EUR/km`;
   } else {
     const buses = Math.max(1, Math.ceil(people / RATES.bus_capacity));
-    const totalDist = (distance_km * 2) + (days * 50);
+    const totalDist = distance_km + (days * RATES.bus_local_km_per_day);
     transportCostTotal = buses * totalDist * RATES.bus_cost_per_km_per_bus;
-    transportNote = `${buses} bus(es) × ~${totalDist.toFixed(0)} km (round-trip + local) × ${RATES.bus_cost_per_km_per_bus} EUR/km`;
+    transportNote = `${buses} bus(es) × ~${totalDist.toFixed(0)} km (full loop + local) × ${RATES.bus_cost_per_km_per_bus} EUR/km`;
   }
 
   let accomRate = RATES.accommodation_per_person_per_night_balanced;
   if (planTier === 'budget') accomRate = RATES.accommodation_per_person_per_night_budget;
   if (planTier === 'premium') accomRate = RATES.accommodation_per_person_per_night_premium;
 
+  if (secondDriverDays > 0) {
+    transportCostTotal += secondDriverDays * RATES.second_driver_per_day;
+  }
+
   const nights = Math.max(0, days - 1);
   const accomTotal = accomRate * people * nights;
   const mealsTotal = RATES.meals_per_person_per_day * people * days;
   const entryTotal = (RATES.entry_fee_per_student_avg * students) + (RATES.entry_fee_per_student_avg * teachers * RATES.teacher_discount);
   
   // Refined Extras Breakdown
-  const activityFees = safe(entryTotal * 0.2); // Additional workshops/guides approx 20% of entry
-  const localTransport = safe(days * people * 5); // Approx 5 EUR/day/person for local transit/metro
-  const contingency = safe((transportCostTotal + accomTotal + mealsTotal + entryTotal) * 0.05); // 5% contingency
+  const activityFees = safe(entryTotal * RATES.activity_fee_share); // Additional workshops/guides as a share of entry
+  const localTransport = safe(days * people * RATES.local_transport_per_person_per_day); // Local transit/metro
+  const contingency = safe((transportCostTotal + accomTotal + mealsTotal + entryTotal) * RATES.contingency_share);
   
   const extras = safe(activityFees + localTransport + contingency);
   const total = safe(transportCostTotal + accomTotal + mealsTotal + entryTotal + extras);
@@ -532,16 +489,123 @@ function estimateCosts(params: TripFormState, distance_km: number, days: number,
       per_student: perStudent,
       transport_note: transportNote,
       accom_rate_per_person: accomRate,
-      accom_note: `${nights} nights @ ~${accomRate} EUR/person (${planTier})`
+      accom_note: `${nights} nights @ ~${accomRate} EUR/person (${planTier})`,
+      rate_card: rateCardRef(rateCard),
+      legs: legCosts,
+      second_driver: secondDriverDays > 0 ? safe(secondDriverDays * RATES.second_driver_per_day) : undefined,
+      second_driver_note: secondDriverDays > 0 ? `Second coach driver (EU 561/2006) ${secondDriverDays} days @ ${RATES.second_driver_per_day} EUR, included in transport` : undefined
     }
   };
 }
 
+interface BudgetFit {
+  tier: PlanTier;
+  rateCard: RateCard;
+  params: TripFormState;
+  stops: GeoLocation[];
+  modes: TransportMode[];
+  route: RouteInfo;
+  legs: RouteLeg[];
+  compliance?: DriverCompliance;
+  breakdown: CostBreakdown;
+  adjustments: string[];
+}
+
+const routeKm = (route: RouteInfo) => (route.distance_m || 0) / 1000;
+
+function priceFit(fit: Omit<BudgetFit, 'legs' | 'compliance' | 'breakdown'>, origin: GeoLocation, days: number): BudgetFit {
+  const legs = buildLegs(origin, fit.stops, fit.route, fit.params, fit.modes);
+  // Coach legs must respect EU driving-time rules; a second driver stays with the group for the whole trip
+  const compliance = legs.some(l => l.mode === 'bus') ? checkDriverHours(assignDrivingDays(legs, days)) : undefined;
+  const secondDriverDays = compliance?.second_driver_required ? days : 0;
+  const breakdown = estimateCosts(fit.params, routeKm(fit.route), days, fit.tier, fit.rateCard, legs, secondDriverDays).breakdown;
+  return { ...fit, legs, compliance, breakdown };
+}
+
+// Adds the mandatory driver breaks to the matching itinerary days
+function withDriverBreaks(itinerary: ItineraryDay[], compliance?: DriverCompliance): ItineraryDay[] {
+  if (!compliance) return itinerary;
+  return itinerary.map(d => {
+    const check = compliance.days.find(c => c.day === d.day);
+    if (!check) return d;
+    const note = `🚌 ${describeDriverDay(check)}.`;
+    return { ...d, summary: d.summary ? `${d.summary} ${note}` : note };
+  });
+}
+
+// Asks the model for an itinerary and, when the validator objects, re-prompts with its findings
+async function generateCheckedItinerary(llm: LlmProvider, req: ItineraryPrompt, check: ItineraryCheckContext, signal?: AbortSignal): Promise<ItineraryDraft> {
+  let best = await llm.generateItinerary(req, signal);
+  let warnings = validateItinerary(best.itinerary, check);
+  for (let round = 0; round < ITINERARY_REPROMPTS && best.itinerary.length > 0 && warnings.length > 0; round++) {
+    const retry = await llm.generateItinerary({ ...req, corrections: warnings }, signal);
+    const retryWarnings = validateItinerary(retry.itinerary, check);
+    if (retry.itinerary.length === 0 || retryWarnings.length >= warnings.length) break;
+    best = { itinerary: retry.itinerary, poi_descriptions: retry.poi_descriptions.length ? retry.poi_descriptions : best.poi_descriptions };
+    warnings = retryWarnings;
+  }
+  if (best.poi_descriptions.length === 0 && req.pois.length > 0) {
+    best = { ...best, poi_descriptions: await llm.describePois({ pois: req.pois, grade: req.grade, focus: req.focus }, signal) };
+  }
+  return best;
+}
+
+// Everything a block's location can be matched against
+function planPlaces(origin: GeoLocation, stops: GeoLocation[], pois: Poi[]): { title: string; lat: number; lng: number }[] {
+  return [
+    ...pois.filter(hasLocation).map(p => ({ title: p.label, lat: p.lat, lng: p.lng })),
+    ...stops.map(s => ({ title: s.name, lat: s.lat, lng: s.lng })),
+    { title: origin.name, lat: origin.lat, lng: origin.lng }
+  ];
+}
+
+const loopHours = (fit: BudgetFit) => fit.legs.reduce((sum, l) => sum + l.duration_h, 0);
+const returnHours = (fit: BudgetFit) => fit.legs.length > fit.stops.length ? fit.legs[fit.legs.length - 1].duration_h : 0;
+
+// Tries progressively more intrusive changes until the plan fits the budget:
+// cheaper accommodation, then a cheaper transport mode, then fewer stops.
+async function fitToBudget(fit: BudgetFit, budget: BudgetConstraint, days: number, origin: GeoLocation, allowDropStops: boolean, signal?: AbortSignal): Promise<BudgetFit> {
+  const students = fit.params.num_students;
+  const isOver = (f: BudgetFit) => exceedsBudget(f.breakdown, students, budget);
+
+  while (isOver(fit) && PLAN_TIERS.indexOf(fit.tier) > 0) {
+    const tier = PLAN_TIERS[PLAN_TIERS.indexOf(fit.tier) - 1];
+    fit = priceFit({ ...fit, tier, adjustments: [...fit.adjustments, `Accommodation lowered to ${tier} tier`] }, origin, days);
+  }
+
+  if (isOver(fit)) {
+    const alternatives = (['bus', 'train'] as const).filter(m => m !== fit.params.transport_pref);
+    let best = fit;
+    for (const mode of alternatives) {
+      const params = { ...fit.params, transport_pref: mode };
+      const candidate = priceFit({ ...fit, params, adjustments: [...fit.adjustments, `Transport switched to ${mode}`] }, origin, days);
+      if (candidate.breakdown.total < best.breakdown.total) best = candidate;
+    }
+    fit = best;
+  }
+
+  while (allowDropStops && isOver(fit) && fit.stops.length > 1) {
+    const dropped = fit.stops[fit.stops.length - 1];
+    const stops = fit.stops.slice(0, -1);
+    const route = await computeRoute(origin, stops, signal);
+    fit = priceFit({
+      ...fit,
+      stops,
+      modes: fit.modes.slice(0, -1),
+      route,
+      adjustments: [...fit.adjustments, `Dropped stop ${dropped.name}`]
+    }, origin, days);
+  }
+
+  return fit;
+}
+
 function computeReliability(sources: any[]) {
   if (!sources || !sources.length) return 42;
   let score = 40;
   sources.forEach(s => {
     if (s.source === 'google-maps') score += 20; 
+    if (s.source === 'curated') score += 15;
     if (s.source === 'opentripmap') score += 15;
     if (s.source === 'ors') score += 12;
     if (s.source === 'wikidata') score += 10;
@@ -552,51 +616,131 @@ function computeReliability(sources: any[]) {
   return Math.min(98, Math.round(score));
 }
 
-export async function buildThreePlans(formData: TripFormState, forceTemplates = false): Promise<PlannerResult> {
+const poiCount = (pois: Poi[]) => `${pois.length} places`;
+
+// A place (or route) the alternatives can be planned for
+interface DestinationOption {
+  label: string;
+  stops: GeoLocation[];
+  modes: TransportMode[];
+  multi_stop: boolean; // The user's own route: stops may be dropped to meet the budget
+  radius_m: number; // POI search radius around each stop
+  suggestion?: Poi;
+  route_optimization?: RouteOptimization;
+}
+
+const FALLBACK_DESTINATION: GeoLocation = { lat: 43.8563, lng: 18.4131, name: 'Sarajevo, BiH', source: 'input', url: null, country: 'Bosnia and Herzegovina', country_code: 'BA' };
+
+function addDays(d: Date, n: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+/**
+ * Builds `formData.plan_count` alternatives that differ along the axes in `formData.vary`.
+ * Every stage is reported through `options.onProgress`, and aborting `options.signal`
+ * cancels the in-flight requests.
+ */
+export async function buildPlans(formData: TripFormState, forceTemplates = false, options: GenerationOptions = {}): Promise<PlannerResult> {
+  const { signal } = options;
+  const step = progressReporter(options);
   const dep = parseDateNormalized(formData.dep_date);
   const ret = parseDateNormalized(formData.ret_date);
   if (!dep || !ret) throw new Error("Invalid dates.");
   if (dep > ret) throw new Error("Departure date must be before return date.");
   const days = daysInclusive(dep, ret);
-  if (formData.trip_type.toLowerCase().includes('multi') && days < 2) throw new Error("Multi-day trip must be at least 2 days.");
+  const multiDay = formData.trip_type.toLowerCase().includes('multi');
+  if (multiDay && days < 2) throw new Error("Multi-day trip must be at least 2 days.");
+  const focus = parseFocus(formData.focus);
+  const focusText = describeFocus(focus) || 'general education';
+  const llm = getLlmProvider();
+  const vary = VARIATION_AXES.filter(axis => (formData.vary || []).includes(axis));
+  const count = clampPlanCount(formData.plan_count || PLAN_TIERS.length);
+
+  // Without these the plans quietly lose geocoding, road routes or POIs, so say so up front
+  const missingKeys = missingDirectKeys();
+  if (missingKeys.length > 0) {
+    await step('api-keys', 'Checking API keys', async () => missingKeys, m => `${m.join(', ')} not set; those lookups are skipped`);
+  }
 
   let originGeo: GeoLocation | null = null;
   if (formData.origin && formData.origin.trim() !== '') {
-    originGeo = await geocodeGeoNames(formData.origin) || await geocodeORS(formData.origin);
+    originGeo = await step('origin', `Geocoding ${formData.origin}`, () => geocode(formData.origin, signal), g => g ? g.name : 'not found, using the default');
   }
   if (!originGeo) {
     originGeo = { lat: IDSS_COORDS.lat, lng: IDSS_COORDS.lng, name: 'IDSS Sarajevo', source: 'default', url: null };
   }
+  const originSource: SourceLink = {
+    url: originGeo.url,
+    title: originGeo.name,
+    source: originGeo.source,
+    verified: !!originGeo.url,
+    description: 'Departure',
+    lat: originGeo.lat,
+    lng: originGeo.lng,
+    provenance: { provider: originGeo.source, grounded: false, resolution: originGeo.source === 'default' ? 'provider' : 'geocoded' }
+  };
 
-  let complexRouteCandidate: { stops: GeoLocation[] } | null = null;
-  let candidates: { city: string; country?: string; lat?: number; lng?: number }[] = [];
+  const destinations: DestinationOption[] = [];
+  let candidates: { city: string; country?: string; lat?: number; lng?: number; suggestion?: Poi }[] = [];
 
-  const validDestinations = formData.destinations.filter(d => d.trim().length > 0);
+  const validDestinations = formData.destinations
+    .map((name, i) => ({ name, mode: formData.leg_modes[i] || 'bus', pinned: formData.destination_geos[i] || null }))
+    .filter(d => d.name.trim().length > 0);
 
   if (validDestinations.length > 0) {
-    const resolvedStops: GeoLocation[] = [];
-    for (const dest of validDestinations) {
-        const ge = await geocodeGeoNames(dest) || await geocodeORS(dest);
+    let resolvedStops: GeoLocation[] = [];
+    let resolvedModes: TransportMode[] = [];
+    let routeOptimization: RouteOptimization | undefined;
+    const geos = await mapPool(validDestinations, async (dest, i) =>
+        dest.pinned || await step(`stop-${i}`, `Geocoding stop ${dest.name}`, () => geocode(dest.name, signal), g => g ? g.name : 'not found, skipped'));
+    validDestinations.forEach((dest, i) => {
+        const ge = geos[i];
         if (ge) {
             resolvedStops.push(ge);
+            resolvedModes.push(dest.mode);
         }
+    });
+    if (formData.optimize_order && resolvedStops.length > 1) {
+        const { order, summary } = await step('optimize', 'Optimising the stop order', () => optimizeStopOrder(originGeo, resolvedStops, { lock_first: formData.lock_first, lock_last: formData.lock_last }, signal));
+        resolvedStops = order.map(i => resolvedStops[i]);
+        resolvedModes = order.map(i => resolvedModes[i]);
+        routeOptimization = summary;
     }
     if (resolvedStops.length > 0) {
-        complexRouteCandidate = { stops: resolvedStops };
+        destinations.push({
+            label: resolvedStops.map(s => s.name).join(' -> '),
+            stops: resolvedStops,
+            modes: resolvedModes,
+            multi_stop: true,
+            radius_m: 5000,
+            route_optimization: routeOptimization
+        });
     }
   } else {
+    const wanted = destinationsWanted(count, vary);
     // Suggest destinations
-    const apiKey = getGeminiApiKey();
-    if (!forceTemplates && apiKey) {
-      const prompt = `Suggest 3 distinct and best cities/regions for a ${formData.trip_type} field trip for grade ${formData.grade_level} students. Focus: ${formData.focus}. Scope: ${formData.scope}. Origin: ${originGeo.name}.`;
-      const geminiSuggs = await getGeminiSuggestions(prompt, originGeo.lat, originGeo.lng);
-      
-      for (const s of geminiSuggs.slice(0, 4)) {
-         const ge = await geocodeGeoNames(s.label) || await geocodeORS(s.label);
-         if (ge) {
-           if (!candidates.some(c => c.city === ge.name)) {
-             candidates.push({ city: ge.name, lat: ge.lat, lng: ge.lng });
-           }
+    if (!forceTemplates && llm.available()) {
+      const suggestions = await step('suggest', `Asking ${llm.label} for destinations`, () => llm.suggestDestinations({
+        trip_type: formData.trip_type,
+        grade_level: formData.grade_level,
+        focus: focusText,
+        scope: formData.scope,
+        origin: { name: originGeo.name, lat: originGeo.lat, lng: originGeo.lng },
+        count: Math.max(3, wanted)
+      }, signal), list => `${list.length} suggested`);
+
+      const top = suggestions.slice(0, Math.max(4, wanted + 1));
+      const located = await mapPool(top, (s, i) =>
+        step(`suggestion-${i}`, `Locating ${s.label}`, () => resolveGroundedPlace(s, originGeo, signal), p => hasLocation(p) ? p.label : 'not found, skipped'));
+      for (const [i, place] of located.entries()) {
+         const s = top[i];
+         if (!hasLocation(place)) {
+           console.warn(`Could not locate suggested destination "${s.label}"`);
+           continue;
+         }
+         if (!candidates.some(c => c.city === place.label)) {
+           const { country, ...suggestion } = place;
+           candidates.push({ city: place.label, country, lat: place.lat, lng: place.lng, suggestion });
          }
       }
     }
@@ -607,228 +751,199 @@ export async function buildThreePlans(formData: TripFormState, forceTemplates =
       });
       if (candidates.length > 12) candidates = candidates.slice(0, 12);
     }
-  }
-
-  const tiers = ['budget', 'balanced', 'premium'] as const;
-  const plansOut: TripPlan[] = [];
-
-  if (complexRouteCandidate) {
-      for (const tier of tiers) {
-          const stops = complexRouteCandidate.stops;
-          const destinationTitle = stops.map(s => s.name).join(' -> ');
-          const title = `${destinationTitle} — ${tier.charAt(0).toUpperCase() + tier.slice(1)}`;
-          
-          const coords: [number, number][] = [[originGeo.lng, originGeo.lat]];
-          stops.forEach(s => coords.push([s.lng, s.lat]));
-          
-          let routeInfo = await orsRouteDistance(coords);
-          
-          if (!routeInfo || !routeInfo.distance_m) {
-              let totalMeters = 0;
-              let poly: [number, number][] = [[originGeo.lat, originGeo.lng]];
-              let prev = originGeo;
-              for (const s of stops) {
-                  totalMeters += haversineDistance(prev.lat, prev.lng, s.lat, s.lng);
-                  poly.push([s.lat, s.lng]);
-                  prev = s;
-              }
-              routeInfo = {
-                  distance_m: totalMeters,
-                  duration_s: (totalMeters / 50000) * 3600,
-                  polyline: poly
-              };
-          }
-
-          const distance_km = (routeInfo.distance_m || 0) / 1000;
-          const travel_time_h = (routeInfo.duration_s || 0) / 3600;
-          
-          if (travel_time_h * 2 > (days * 9)) {
-             throw new Error(`Itinerary impossible: Estimated driving time (${Math.round(travel_time_h * 2)}h round-trip) exceeds available days (${days}). Please add more days or reduce destinations.`);
-          }
 
-          const cost = estimateCosts(formData, distance_km, Math.max(1, days), tier);
-
-          let allPois: Poi[] = [];
-          if (!forceTemplates) {
-              for (const stop of stops) {
-                  const otmPois = await fetchOpenTripMapPOIs(stop.lat, stop.lng, 5000); 
-                  allPois = [...allPois, ...otmPois];
-                  if (otmPois.length < 2) {
-                      const wiki = await wikidataPOIs(stop.lat, stop.lng, 10, formData.focus);
-                      allPois = [...allPois, ...wiki];
-                  }
-              }
-          }
+    const locate = async (c: typeof candidates[number], i: number): Promise<DestinationOption | null> => {
+        let ge: GeoLocation | null = null;
+        if (c.lat && c.lng) {
+            ge = { lat: c.lat, lng: c.lng, name: c.city, source: 'input', url: null, country: c.country };
+        } else {
+            const found = await step(`candidate-${i}`, `Geocoding ${c.city}`, async () => await geocode(c.city + (c.country ? ', ' + c.country : ''), signal) || await geocode(c.city, signal), g => g ? g.name : 'not found, skipped');
+            if (found) ge = { ...found, country: found.country || c.country };
+        }
+        if (!ge) return null;
+        return { label: ge.name, stops: [ge], modes: formData.leg_modes.slice(0, 1), multi_stop: false, radius_m: 8000, suggestion: c.suggestion };
+    };
 
-          let itinerary: ItineraryDay[] = [];
-          let poiDescriptions: Map<string, string> = new Map();
-
-          if (!forceTemplates) {
-              const generated = await generateGeminiItinerary(
-                  stops.map(s => s.name),
-                  days,
-                  formData.grade_level,
-                  formData.focus,
-                  tier,
-                  originGeo.name,
-                  travel_time_h,
-                  allPois.map(p => ({ label: p.label, url: p.url })),
-                  formData.notes
-              );
-              if (generated.itinerary.length > 0) itinerary = generated.itinerary;
-              generated.poi_descriptions.forEach(d => poiDescriptions.set(d.name, d.description));
-          }
+    // Candidates are tried in order, only as many at a time as are still missing
+    for (let next = 0; destinations.length < wanted && next < candidates.length;) {
+        const offset = next;
+        const batch = candidates.slice(offset, offset + wanted - destinations.length);
+        next += batch.length;
+        for (const d of await mapPool(batch, (c, j) => locate(c, offset + j))) {
+            if (d && destinations.length < wanted) destinations.push(d);
+        }
+    }
+    if (destinations.length === 0) {
+        destinations.push({ label: FALLBACK_DESTINATION.name, stops: [FALLBACK_DESTINATION], modes: formData.leg_modes.slice(0, 1), multi_stop: false, radius_m: 8000 });
+    }
+  }
 
-          const sources: SourceLink[] = [];
-          allPois.slice(0, 15).forEach(p => {
-              let desc = poiDescriptions.get(p.label);
-              if (!desc) {
-                  for (const [key, val] of poiDescriptions.entries()) {
-                      if (key.includes(p.label) || p.label.includes(key)) {
-                          desc = val; break;
-                      }
-                  }
-              }
-              if (p.url || desc) {
-                  sources.push({ 
-                      url: p.url, 
-                      title: p.label, 
-                      source: p.source, 
-                      verified: !!p.url, 
-                      description: desc,
-                      lat: p.lat,
-                      lng: p.lng
-                  });
-              }
-          });
-          sources.push({ url: originGeo.url, title: originGeo.name, source: originGeo.source, verified: !!originGeo.url, description: 'Departure', lat: originGeo.lat, lng: originGeo.lng });
-          const uniqueSources = sources.filter((s, index, self) => index === self.findIndex((t) => (t.url === s.url && t.title === s.title)));
-
-          plansOut.push({
-              title,
-              reliability: computeReliability(uniqueSources),
-              destination: destinationTitle,
-              number_of_days: days,
-              itinerary: itinerary.length ? itinerary : [{ day: 1, activity: 'Itinerary generation failed.' }],
-              estimated_cost_per_student: `${cost.breakdown.per_student} EUR`,
-              cost_breakdown: cost.breakdown,
-              distance_km: safe(distance_km),
-              travel_time_h: safe(travel_time_h),
-              accompanying_teachers: formData.teachers,
-              why: `Multi-stop route fitting focus: ${formData.focus}.`,
-              sources: uniqueSources.slice(0, 8),
-              polyline: routeInfo.polyline
+  if (destinations.length === 0) throw new Error("None of the destinations could be located.");
+
+  const variants = planVariants({
+    destinations: destinations.length,
+    transport: formData.transport_pref,
+    days,
+    min_days: multiDay ? 2 : 1,
+    max_days: multiDay ? Number.POSITIVE_INFINITY : 1,
+    focus
+  }, vary, count);
+
+  // Routes and POIs depend on the destination (and focus) only, so every variant sharing them reuses one lookup
+  const routeKeys = Array.from(new Set(variants.map(v => v.destination)));
+  const poiKeys = Array.from(new Set(variants.map(v => `${v.destination}|${v.focus.join('+')}`)));
+  const focusVaries = new Set(variants.map(v => v.focus.join('+'))).size > 1;
+  const [routes, poiLists] = await Promise.all([
+      mapPool(routeKeys, d => {
+          const dest = destinations[d];
+          return step(`route-${d}`, `Routing ${dest.label}`, () => computeRoute(originGeo, dest.stops, signal), r => `${Math.round(routeKm(r))} km`);
+      }),
+      mapPool(poiKeys, key => {
+          const [d, tags] = key.split('|');
+          const dest = destinations[Number(d)];
+          const poiFocus = parseFocus(tags);
+          return mapPool(dest.stops, (stop, i) => {
+              const q = { lat: stop.lat, lng: stop.lng, radius_m: dest.radius_m, focus: poiFocus, grade_level: formData.grade_level };
+              const label = `Fetching POIs near ${stop.name}${focusVaries ? ` (${describeFocus(poiFocus) || 'general'})` : ''}`;
+              return step(`pois-${key}-${i}`, label, () => forceTemplates ? offlinePois(q) : gatherPois(q, signal), poiCount);
           });
+      })
+  ]);
+  const routeFor = (d: number) => routes[routeKeys.indexOf(d)];
+  const poisFor = (v: VariantSpec) => poiLists[poiKeys.indexOf(`${v.destination}|${v.focus.join('+')}`)];
+
+  const budget = parseBudget(formData.budget);
+  const rateCards = loadRateCards();
+  const describedAxes = vary.filter(axis => axis !== 'destination');
+  let impossible: Error | null = null;
+
+  const built = await mapPool(variants, async (v, n): Promise<TripPlan | null> => {
+      const dest = destinations[v.destination];
+      const planDays = v.days;
+      const params: TripFormState = {
+          ...formData,
+          transport_pref: v.transport,
+          focus: v.focus,
+          ret_date: planDays === days ? formData.ret_date : toIsoDate(addDays(dep, planDays - 1))
+      };
+      const planFocusText = describeFocus(v.focus) || 'general education';
+
+      const rateCard = selectRateCard(rateCards, dest.stops[0], dep);
+      let fit = priceFit({
+          tier: v.tier,
+          rateCard,
+          params,
+          stops: dest.stops,
+          modes: dest.modes,
+          route: routeFor(v.destination),
+          adjustments: []
+      }, originGeo, Math.max(1, planDays));
+
+      const initialHours = loopHours(fit);
+      if (dest.multi_stop && !fit.compliance && initialHours > (planDays * 9)) {
+          impossible = new Error(`Itinerary impossible: Estimated driving time (${Math.round(initialHours)}h round-trip) exceeds available days (${planDays}). Please add more days or reduce destinations.`);
+          return null;
       }
 
-  } else {
-      const enriched = [];
-      for (const c of candidates) {
-          let ge: GeoLocation | null = null;
-          if (c.lat && c.lng) {
-              ge = { lat: c.lat, lng: c.lng, name: c.city, source: 'input', url: null };
-          } else {
-              ge = await geocodeGeoNames(c.city + (c.country ? ', ' + c.country : '')) || await geocodeORS(c.city);
-          }
-          if (!ge) continue;
-
-          let pois: Poi[] = [];
-          if (!forceTemplates) {
-              const otm = await fetchOpenTripMapPOIs(ge.lat, ge.lng, 8000);
-              pois = [...otm];
-              if (pois.length < 5) {
-                  const wiki = await wikidataPOIs(ge.lat, ge.lng, 15, formData.focus);
-                  wiki.forEach(w => { if (!pois.some(p => p.label === w.label)) pois.push(w); });
-              }
-          }
-          enriched.push({ city: ge.name, lat: ge.lat, lng: ge.lng, pois: pois.slice(0, 10) });
-          if (enriched.length >= 3) break; 
-      }
-
-      const chosen = [];
-      if (enriched.length >= 3) {
-          chosen.push(enriched[0], enriched[1], enriched[2]);
-      } else {
-          for (const e of enriched) chosen.push(e);
-          if (chosen.length === 0) {
-             chosen.push({ city: 'Sarajevo, BiH', lat: 43.8563, lng: 18.4131, pois: [] });
-          }
-          while(chosen.length < 3) chosen.push(chosen[0]);
+      if (budget) fit = await fitToBudget(fit, budget, Math.max(1, planDays), originGeo, dest.multi_stop, signal);
+
+      // Budget fitting may lower the tier or switch the transport, so the label describes what was actually costed
+      const variant: PlanVariant = { ...v, destination: dest.label, tier: fit.tier, transport: fit.params.transport_pref };
+      const variantLabel = (describedAxes.length ? describedAxes : ['tier' as const])
+          .map(axis => variantValue(variant, axis)).join(' · ');
+      const plan = `plan ${n + 1} (${variantLabel})`;
+
+      const stops = fit.stops;
+      const routeInfo = fit.route;
+      const destinationTitle = stops.map(s => s.name).join(' -> ');
+      const title = `${destinationTitle} — ${variantLabel}`;
+      const distance_km = routeKm(routeInfo);
+      const travel_time_h = loopHours(fit);
+      const cost = { breakdown: fit.breakdown };
+
+      // Budget fitting only ever drops stops from the end, so these line up with fit.stops
+      const stopPois = poisFor(v);
+      const poisByStop = stops.map((_, i) => stopPois[i].slice(0, 10));
+      const allPois = poisByStop.flat();
+
+      let itinerary: ItineraryDay[] = [];
+      let poiDescriptions: Map<string, string> = new Map();
+      const places = planPlaces(originGeo, stops, allPois);
+      const check: ItineraryCheckContext = { days: planDays, return_by: formData.return_by, return_travel_h: returnHours(fit), known_places: places.map(p => p.title) };
+
+      if (!forceTemplates) {
+          const generated = await step(`itinerary-${n}`, `Writing the itinerary for ${plan}`, () => generateCheckedItinerary(llm, {
+              destinations: stops.map(s => s.name),
+              days: planDays,
+              grade: formData.grade_level,
+              focus: planFocusText,
+              tier: fit.tier,
+              origin: originGeo.name,
+              travel_time_h: returnHours(fit),
+              return_by: formData.return_by,
+              pois: allPois.map(p => ({ label: p.label, url: p.url })),
+              notes: formData.notes,
+              coach_schedule: fit.compliance?.days.map(d => `Day ${d.day}: ${describeDriverDay(d)}`)
+          }, check, signal), g => g.itinerary.length ? `${g.itinerary.length} days` : 'no answer, using the template');
+          if (generated.itinerary.length > 0) itinerary = generated.itinerary;
+          generated.poi_descriptions.forEach(d => poiDescriptions.set(d.name, d.description));
       }
-
-      for (let i = 0; i < 3; i++) {
-          const tier = tiers[i];
-          const cand = chosen[i];
-          const title = `${cand.city} — ${tier.charAt(0).toUpperCase() + tier.slice(1)}`;
-
-          let routeInfo = await orsRouteDistance([[originGeo.lng, originGeo.lat], [cand.lng, cand.lat]]);
-          if (!routeInfo || !routeInfo.distance_m) {
-              const m = haversineDistance(originGeo.lat, originGeo.lng, cand.lat, cand.lng);
-              routeInfo = { distance_m: m, duration_s: (m/50000)*3600, polyline: [[originGeo.lat, originGeo.lng], [cand.lat, cand.lng]] };
+      const template = itinerary.length ? null : templateItinerary({
+          origin: originGeo, stops, legs: fit.legs, days: planDays, pois_by_stop: poisByStop, grade_level: formData.grade_level, rates: fit.rateCard.rates, return_by: formData.return_by
+      });
+      const finalItinerary = locateBlocks(withDriverBreaks(template ? template.itinerary : itinerary, fit.compliance), places);
+
+      const sources: SourceLink[] = [];
+      allPois.slice(0, 15).forEach(p => {
+          let desc = poiDescriptions.get(p.label) || p.description;
+          if (!desc) {
+              for (const [key, val] of poiDescriptions.entries()) {
+                  if (key.includes(p.label) || p.label.includes(key)) {
+                      desc = val; break;
+                  }
+              }
           }
-          
-          const distance_km = (routeInfo.distance_m || 0) / 1000;
-          const travel_time_h = (routeInfo.duration_s || 0) / 3600;
-          
-          const cost = estimateCosts(formData, distance_km, Math.max(1, days), tier);
-
-          let itinerary: ItineraryDay[] = [];
-          let poiDescriptions: Map<string, string> = new Map();
-
-          if (!forceTemplates) {
-              const generated = await generateGeminiItinerary(
-                  [cand.city],
-                  days,
-                  formData.grade_level,
-                  formData.focus,
-                  tier,
-                  originGeo.name,
-                  travel_time_h, 
-                  cand.pois.map(p => ({ label: p.label, url: p.url })),
-                  formData.notes
-              );
-              if (generated.itinerary.length > 0) itinerary = generated.itinerary;
-              generated.poi_descriptions.forEach(d => poiDescriptions.set(d.name, d.description));
+          if (p.url || desc) {
+              sources.push(poiSource(p, desc));
           }
+      });
+      if (dest.suggestion) sources.unshift(poiSource(dest.suggestion, llm.grounded ? `Suggested by ${llm.label} (Google Maps grounding)` : `Suggested by ${llm.label}`));
+      sources.push(originSource);
+      const uniqueSources = sources.filter((s, index, self) => index === self.findIndex((t) => (t.url === s.url && t.title === s.title)));
 
-          const sources: SourceLink[] = [];
-          cand.pois.forEach(p => {
-              let desc = poiDescriptions.get(p.label);
-              if (!desc) {
-                  for (const [key, val] of poiDescriptions.entries()) {
-                      if (key.includes(p.label) || p.label.includes(key)) { desc = val; break; }
-                  }
-              }
-              if (p.url || desc) sources.push({ 
-                  url: p.url, 
-                  title: p.label, 
-                  source: p.source, 
-                  verified: !!p.url, 
-                  description: desc,
-                  lat: p.lat, // Pass coords
-                  lng: p.lng  // Pass coords
-              });
-          });
-          sources.push({ url: originGeo.url, title: originGeo.name, source: originGeo.source, verified: !!originGeo.url, description: 'Departure', lat: originGeo.lat, lng: originGeo.lng });
-          const uniqueSources = sources.filter((s, index, self) => index === self.findIndex((t) => (t.url === s.url && t.title === s.title)));
-
-          plansOut.push({
-              title,
-              reliability: computeReliability(uniqueSources),
-              destination: cand.city,
-              number_of_days: days,
-              itinerary: itinerary.length ? itinerary : [{ day: 1, activity: 'Fallback itinerary.' }],
-              estimated_cost_per_student: `${cost.breakdown.per_student} EUR`,
-              cost_breakdown: cost.breakdown,
-              distance_km: safe(distance_km),
-              travel_time_h: safe(travel_time_h),
-              accompanying_teachers: formData.teachers,
-              why: `Fits focus: ${formData.focus}.`,
-              sources: uniqueSources.slice(0, 6),
-              polyline: routeInfo.polyline
-          });
-      }
-  }
+      return {
+          title,
+          reliability: computeReliability(uniqueSources),
+          destination: destinationTitle,
+          number_of_days: planDays,
+          dep_date: toIsoDate(dep),
+          itinerary: finalItinerary,
+          itinerary_warnings: [...(template?.warnings || []), ...validateItinerary(finalItinerary, check)],
+          estimated_cost_per_student: `${cost.breakdown.per_student} EUR`,
+          cost_breakdown: cost.breakdown,
+          distance_km: safe(distance_km),
+          travel_time_h: safe(travel_time_h),
+          accompanying_teachers: formData.teachers,
+          why: dest.multi_stop ? `Multi-stop route fitting focus: ${planFocusText}.` : `Fits focus: ${planFocusText}.`,
+          sources: uniqueSources.slice(0, dest.multi_stop ? 8 : 6),
+          polyline: fit.legs.length ? fit.legs.flatMap(l => l.polyline) : routeInfo.polyline,
+          legs: fit.legs,
+          route_optimization: dest.route_optimization,
+          driver_compliance: fit.compliance,
+          budget_status: budget ? evaluateBudget(fit.breakdown, formData.num_students, budget, fit.adjustments) : undefined,
+          variant
+      };
+  });
 
+  // Variants that budget fitting squeezed into the same plan are only listed once
+  const seen = new Set<string>();
+  const plansOut = built.filter((p): p is TripPlan => {
+      if (!p) return false;
+      const key = JSON.stringify([p.destination, p.variant]);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+  });
+  if (plansOut.length === 0 && impossible) throw impossible;
   return { plans: plansOut, origin: originGeo };
 }
@@ -0,0 +1,146 @@
+import { ItineraryBlock, ItineraryBlockKind, Poi } from '../types';
+import { haversineDistance } from './geoUtils';
+import { parseClock, toClock } from './itinerary';
+import { throwIfAborted } from './progress';
+import { DescribeRequest, ItineraryDraft, ItineraryPrompt, LlmProvider, PoiDescription, SuggestRequest, uniquePromptPois } from './llm';
+
+/* ===========================
+   Deterministic mock (no network, no keys)
+   =========================== */
+
+interface FixtureDestination {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+const FIXTURE_DESTINATIONS: FixtureDestination[] = [
+  { name: 'Mostar', country: 'BA', lat: 43.3438, lng: 17.8078 },
+  { name: 'Sarajevo', country: 'BA', lat: 43.8563, lng: 18.4131 },
+  { name: 'Jajce', country: 'BA', lat: 44.3420, lng: 17.2706 },
+  { name: 'Dubrovnik', country: 'HR', lat: 42.6507, lng: 18.0944 },
+  { name: 'Split', country: 'HR', lat: 43.5081, lng: 16.4402 },
+  { name: 'Zagreb', country: 'HR', lat: 45.8150, lng: 15.9819 },
+  { name: 'Novi Sad', country: 'RS', lat: 45.2671, lng: 19.8335 },
+  { name: 'Belgrade', country: 'RS', lat: 44.7866, lng: 20.4489 },
+  { name: 'Ljubljana', country: 'SI', lat: 46.0569, lng: 14.5058 },
+  { name: 'Vienna', country: 'AT', lat: 48.2082, lng: 16.3738 },
+  { name: 'Budapest', country: 'HU', lat: 47.4979, lng: 19.0402 }
+];
+
+const FIXTURE_DESCRIPTIONS: Record<string, string> = {
+  'Zemaljski muzej Bosne i Hercegovine': 'The National Museum holds archaeological, ethnological and natural history collections, including the Sarajevo Haggadah; a compact tour shows how the region was settled.',
+  'Vijećnica': 'The Austro-Hungarian town hall in pseudo-Moorish style burned in 1992 and reopened in 2014; its story connects architecture, libraries and the siege of Sarajevo.',
+  'Tunel spasa': 'The Tunnel of Hope ran under the airport runway during the siege and kept the city supplied; the short walk-through makes wartime logistics tangible.',
+  'Stari most': 'The sixteenth-century Ottoman bridge over the Neretva was destroyed in 1993 and rebuilt with original techniques, a lesson in engineering and reconciliation.'
+};
+
+const MIN_FROM_ORIGIN_KM = 30;
+const FIXTURE_COSTS = { visit: 8, lunch: 12, dinner: 15 };
+
+// Maps URIs carry the pin, so suggestions resolve offline as 'maps_uri'
+function suggestDestinations(req: SuggestRequest, signal?: AbortSignal): Promise<Poi[]> {
+  throwIfAborted(signal);
+  const ranked = FIXTURE_DESTINATIONS
+    .map(d => ({ d, km: haversineDistance(req.origin.lat, req.origin.lng, d.lat, d.lng) / 1000 }))
+    .filter(r => r.km >= MIN_FROM_ORIGIN_KM)
+    .sort((a, b) => a.km - b.km)
+    .slice(0, req.count);
+  return Promise.resolve(ranked.map(({ d }) => ({
+    label: d.name,
+    lat: NaN,
+    lng: NaN,
+    url: `https://www.google.com/maps/search/?api=1&query=${d.lat},${d.lng}`,
+    source: 'mock',
+    resolution: 'unresolved' as const
+  })));
+}
+
+function describe(label: string, focus: string): string {
+  return FIXTURE_DESCRIPTIONS[label] || `${label} is a stop chosen for its ${focus.toLowerCase() || 'educational'} value; students get a guided introduction and a short worksheet on site.`;
+}
+
+function describePois(req: DescribeRequest, signal?: AbortSignal): Promise<PoiDescription[]> {
+  throwIfAborted(signal);
+  return Promise.resolve(uniquePromptPois(req.pois).map(p => ({ name: p.label, description: describe(p.label, req.focus) })));
+}
+
+/**
+ * Same shape a model would return: the trip is split evenly over the destinations, POIs are
+ * visited in the order given and the last day leaves in time to be home by `return_by`.
+ */
+function generateItinerary(req: ItineraryPrompt, signal?: AbortSignal): Promise<ItineraryDraft> {
+  throwIfAborted(signal);
+  const days = Math.max(1, req.days);
+  const stops = req.destinations.length ? req.destinations : [req.origin];
+  const pois = uniquePromptPois(req.pois);
+  const returnBy = parseClock(req.return_by) ?? 20 * 60;
+  const returnMin = Math.ceil(req.travel_time_h * 60 / 15) * 15;
+  let next = 0;
+
+  const stopFor = (day: number) => stops[Math.min(stops.length - 1, Math.floor((day - 1) * stops.length / days))];
+
+  const itinerary = Array.from({ length: days }, (_, i) => {
+    const day = i + 1;
+    const here = stopFor(day);
+    const blocks: ItineraryBlock[] = [];
+    const add = (start: number, end: number, kind: ItineraryBlockKind, title: string, location: string, cost_eur?: number) => {
+      blocks.push({ start: toClock(start), end: toClock(end), kind, title, location, cost_eur });
+    };
+    const visit = (start: number, end: number) => {
+      const poi = pois[next++];
+      if (poi) add(start, end, 'visit', `Visit ${poi.label}`, poi.label, FIXTURE_COSTS.visit);
+      else add(start, end, 'free', `Guided walk through ${here}`, here);
+    };
+
+    let t = 8 * 60;
+    if (day === 1) {
+      add(t, t + 180, 'travel', `Departure from ${req.origin} to ${here}`, here);
+      t += 180;
+    } else {
+      add(7 * 60 + 30, 8 * 60 + 15, 'meal', 'Breakfast at the hotel', here);
+      t = 8 * 60 + 30;
+      const moving = here !== stopFor(day - 1);
+      if (moving || day === days) {
+        add(t, t + 30, 'lodging', 'Check-out', stopFor(day - 1));
+        t += 30;
+      }
+      if (moving) {
+        add(t, t + 150, 'travel', `Travel ${stopFor(day - 1)} → ${here}`, here);
+        t += 150;
+      }
+    }
+
+    if (day < days) {
+      if (t <= 9 * 60) visit(9 * 60, 12 * 60);
+      add(12 * 60, 13 * 60 + 30, 'meal', `Lunch in ${here}`, here, FIXTURE_COSTS.lunch);
+      visit(14 * 60, 17 * 60);
+      if (day === 1 || here !== stopFor(day - 1)) add(17 * 60 + 15, 17 * 60 + 45, 'lodging', `Check-in in ${here}`, here);
+      add(19 * 60, 20 * 60, 'meal', `Dinner in ${here}`, here, FIXTURE_COSTS.dinner);
+      return { day, blocks };
+    }
+
+    const departAt = Math.max(t, returnBy - returnMin);
+    if (departAt - t >= 75) visit(t + 15, Math.min(departAt - 15, t + 195));
+    add(departAt, departAt + returnMin, 'travel', `Departure for ${req.origin}`, req.origin);
+    return { day, blocks };
+  });
+
+  return Promise.resolve({
+    itinerary,
+    poi_descriptions: pois.map(p => ({ name: p.label, description: describe(p.label, req.focus) }))
+  });
+}
+
+export function createMockProvider(): LlmProvider {
+  return {
+    id: 'mock',
+    label: 'Mock (fixtures)',
+    grounded: false,
+    available: () => true,
+    suggestDestinations,
+    generateItinerary,
+    describePois
+  };
+}
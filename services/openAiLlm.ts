@@ -0,0 +1,120 @@
+import { Poi } from '../types';
+import { isAbortError } from './progress';
+import {
+  DescribeRequest,
+  EMPTY_DRAFT,
+  ItineraryDraft,
+  ItineraryPrompt,
+  LlmProvider,
+  PoiDescription,
+  SuggestRequest,
+  describePrompt,
+  itineraryPrompt,
+  parseJsonReply,
+  readItineraryDraft,
+  readPoiDescriptions,
+  suggestionPrompt
+} from './llm';
+
+/* ===========================
+   OpenAI-compatible chat completions (Ollama, vLLM, llama.cpp, LM Studio, ...)
+   =========================== */
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+// Without a response schema the JSON layout has to be spelled out in the prompt
+const ITINERARY_SHAPE = `
+      Reply with JSON only, in this shape:
+      {"itinerary": [{"day": 1, "blocks": [{"start": "08:00", "end": "10:30", "kind": "travel", "title": "...", "location": "...", "cost_eur": 0, "notes": "..."}]}],
+       "poi_descriptions": [{"name": "...", "description": "..."}]}
+`;
+const SUGGESTION_SHAPE = `
+Reply with JSON only, in this shape: {"destinations": [{"name": "City", "country": "Country"}]}`;
+const DESCRIBE_SHAPE = `
+      Reply with JSON only, in this shape: {"poi_descriptions": [{"name": "...", "description": "..."}]}`;
+
+export interface OpenAiOptions {
+  base_url: string;
+  model: string;
+  api_key?: string; // Most self-hosted servers need none
+}
+
+export function createOpenAiProvider(options: OpenAiOptions): LlmProvider {
+  const baseUrl = options.base_url.replace(/\/+$/, '');
+
+  const complete = async (prompt: string, signal?: AbortSignal): Promise<any> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.api_key) headers.Authorization = `Bearer ${options.api_key}`;
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: 'system', content: 'You plan school field trips. Always answer with a single JSON object.' },
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.4
+      }),
+      signal
+    });
+    if (!res.ok) throw new Error(`LLM server ${res.status}`);
+    const j = await res.json();
+    return parseJsonReply(j.choices?.[0]?.message?.content || '');
+  };
+
+  // Ungrounded: names only, the planner geocodes them like any other unresolved place
+  const suggestDestinations = async (req: SuggestRequest, signal?: AbortSignal): Promise<Poi[]> => {
+    try {
+      const json = await complete(suggestionPrompt(req) + SUGGESTION_SHAPE, signal);
+      const list: any[] = Array.isArray(json?.destinations) ? json.destinations : [];
+      return list
+        .filter(d => d && typeof d.name === 'string' && d.name.trim())
+        .map(d => ({
+          label: d.country ? `${d.name.trim()}, ${d.country}` : d.name.trim(),
+          lat: NaN,
+          lng: NaN,
+          url: null,
+          source: 'llm',
+          resolution: 'unresolved' as const
+        }));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn('LLM suggestion error', e);
+      return [];
+    }
+  };
+
+  const generateItinerary = async (req: ItineraryPrompt, signal?: AbortSignal): Promise<ItineraryDraft> => {
+    try {
+      return readItineraryDraft(await complete(itineraryPrompt(req) + ITINERARY_SHAPE, signal));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn('LLM itinerary error', e);
+      return EMPTY_DRAFT;
+    }
+  };
+
+  const describePois = async (req: DescribeRequest, signal?: AbortSignal): Promise<PoiDescription[]> => {
+    if (req.pois.length === 0) return [];
+    try {
+      return readPoiDescriptions(await complete(describePrompt(req) + DESCRIBE_SHAPE, signal));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn('LLM POI description error', e);
+      return [];
+    }
+  };
+
+  return {
+    id: 'openai',
+    label: `${options.model} @ ${baseUrl}`,
+    grounded: false,
+    available: () => !!baseUrl && !!options.model,
+    suggestDestinations,
+    generateItinerary,
+    describePois
+  };
+}
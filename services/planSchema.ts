@@ -0,0 +1,220 @@
+import { TRANSPORT_MODE_LABELS } from '../constants';
+import { TripPlan } from '../types';
+import { BLOCK_KINDS, migratePlan } from './itinerary';
+
+/* ===========================
+   Versioned TripPlan schema: migrations and validation
+   =========================== */
+
+/**
+ * 1: cost breakdown with a single `extras` line, no activity fees, local transport or accommodation note
+ * 2: free-text itinerary days (`{ day, activity, poi_name }`)
+ * 3: time-block itinerary days
+ */
+export const PLAN_SCHEMA_VERSION = 3;
+
+export interface PlanFieldError {
+  path: string; // e.g. "itinerary[1].blocks[0].start"; empty for the plan itself
+  message: string;
+}
+
+const MAX_LISTED_ERRORS = 4;
+
+export class PlanSchemaError extends Error {
+  errors: PlanFieldError[];
+
+  constructor(errors: PlanFieldError[]) {
+    const listed = errors.slice(0, MAX_LISTED_ERRORS).map(e => `${e.path || 'plan'} ${e.message}`).join('; ');
+    const more = errors.length > MAX_LISTED_ERRORS ? ` (and ${errors.length - MAX_LISTED_ERRORS} more)` : '';
+    super(`Invalid plan: ${listed}${more}`);
+    this.name = 'PlanSchemaError';
+    this.errors = errors;
+  }
+}
+
+// Each entry upgrades a plan from its key version to the next one
+const MIGRATIONS: Record<number, (plan: any) => any> = {
+  1: plan => {
+    const { extras, ...cost } = plan.cost_breakdown || {};
+    return {
+      ...plan,
+      cost_breakdown: {
+        ...cost,
+        activity_fees: cost.activity_fees ?? 0,
+        local_transport: cost.local_transport ?? 0,
+        contingency: cost.contingency ?? extras ?? 0,
+        accom_note: cost.accom_note ?? ''
+      }
+    };
+  },
+  2: plan => migratePlan(plan)
+};
+
+// Plans exported before versioning carry no number, so their shape tells which one they are
+function detectVersion(plan: any): number {
+  if (plan.schemaVersion !== undefined) return plan.schemaVersion;
+  if (Array.isArray(plan.itinerary) && plan.itinerary.some((d: any) => Array.isArray(d?.blocks))) return 3;
+  const cost = isRecord(plan.cost_breakdown) ? plan.cost_breakdown : {};
+  return 'contingency' in cost || 'activity_fees' in cost ? 2 : 1;
+}
+
+/** Brings a saved or imported plan up to the current shape and validates it; throws PlanSchemaError otherwise. */
+export function upgradePlan(raw: unknown): TripPlan {
+  if (!isRecord(raw)) throw new PlanSchemaError([{ path: '', message: 'is not a JSON object' }]);
+  const version = detectVersion(raw);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new PlanSchemaError([{ path: 'schemaVersion', message: `must be a whole number from 1 to ${PLAN_SCHEMA_VERSION}` }]);
+  }
+  if (version > PLAN_SCHEMA_VERSION) {
+    throw new PlanSchemaError([{ path: 'schemaVersion', message: `is ${version}, but this version of the planner reads up to ${PLAN_SCHEMA_VERSION}; please update it` }]);
+  }
+  let plan: any = raw;
+  for (let v = version; v < PLAN_SCHEMA_VERSION; v++) plan = MIGRATIONS[v](plan);
+  const errors = validatePlan(plan);
+  if (errors.length > 0) throw new PlanSchemaError(errors);
+  return { ...plan, schemaVersion: PLAN_SCHEMA_VERSION };
+}
+
+export function withSchemaVersion(plan: TripPlan): TripPlan {
+  return { ...plan, schemaVersion: PLAN_SCHEMA_VERSION };
+}
+
+/* ---------- Validation ---------- */
+
+type Errors = PlanFieldError[];
+
+interface FieldOptions {
+  optional?: boolean;
+  min?: number;
+  max?: number;
+}
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const at = (path: string, key: string | number) => typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+const CLOCK = /^([01]\d|2[0-3]):[0-5]\d$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function checkNumber(errors: Errors, obj: Record<string, any>, key: string, path: string, opts: FieldOptions = {}) {
+  const v = obj[key];
+  const p = at(path, key);
+  if (v === undefined || v === null) {
+    if (!opts.optional) errors.push({ path: p, message: 'is missing' });
+    return;
+  }
+  if (typeof v !== 'number' || !Number.isFinite(v)) errors.push({ path: p, message: `must be a number, got ${JSON.stringify(v)}` });
+  else if (opts.min !== undefined && v < opts.min) errors.push({ path: p, message: `must be at least ${opts.min}` });
+  else if (opts.max !== undefined && v > opts.max) errors.push({ path: p, message: `must be at most ${opts.max}` });
+}
+
+function checkString(errors: Errors, obj: Record<string, any>, key: string, path: string, opts: FieldOptions & { nullable?: boolean; nonEmpty?: boolean } = {}) {
+  const v = obj[key];
+  const p = at(path, key);
+  if (v === undefined || (v === null && !opts.nullable)) {
+    if (!opts.optional) errors.push({ path: p, message: 'is missing' });
+    return;
+  }
+  if (v === null) return;
+  if (typeof v !== 'string') errors.push({ path: p, message: 'must be text' });
+  else if (opts.nonEmpty && !v.trim()) errors.push({ path: p, message: 'must not be empty' });
+}
+
+// Checks that obj[key] is an array and runs `each` on its items
+function checkArray(errors: Errors, obj: Record<string, any>, key: string, path: string, each: (item: any, itemPath: string) => void, optional = false) {
+  const v = obj[key];
+  const p = at(path, key);
+  if (v === undefined || v === null) {
+    if (!optional) errors.push({ path: p, message: 'is missing' });
+    return;
+  }
+  if (!Array.isArray(v)) {
+    errors.push({ path: p, message: 'must be a list' });
+    return;
+  }
+  v.forEach((item, i) => each(item, at(p, i)));
+}
+
+function checkObject(errors: Errors, value: unknown, path: string, check: (obj: Record<string, any>) => void) {
+  if (!isRecord(value)) errors.push({ path, message: value === undefined ? 'is missing' : 'must be an object' });
+  else check(value);
+}
+
+function checkCoords(errors: Errors, item: unknown, path: string) {
+  if (!Array.isArray(item) || item.length !== 2 || !item.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    errors.push({ path, message: 'must be a [lat, lng] pair' });
+  }
+}
+
+function checkMode(errors: Errors, obj: Record<string, any>, path: string) {
+  if (typeof obj.mode !== 'string' || !Object.prototype.hasOwnProperty.call(TRANSPORT_MODE_LABELS, obj.mode)) errors.push({ path: at(path, 'mode'), message: `must be one of ${Object.keys(TRANSPORT_MODE_LABELS).join(', ')}` });
+}
+
+const COST_FIELDS = ['transport', 'accommodation', 'meals', 'entry_fees', 'activity_fees', 'local_transport', 'contingency', 'total', 'per_student', 'accom_rate_per_person'];
+
+/** Field-level problems with a plan in the current shape; an empty list means it is usable. */
+export function validatePlan(plan: unknown): PlanFieldError[] {
+  const errors: Errors = [];
+  checkObject(errors, plan, '', p => {
+    checkString(errors, p, 'title', '', { nonEmpty: true });
+    checkString(errors, p, 'destination', '', { nonEmpty: true });
+    checkNumber(errors, p, 'reliability', '', { min: 0, max: 100 });
+    checkNumber(errors, p, 'number_of_days', '', { min: 1 });
+    checkString(errors, p, 'dep_date', '', { optional: true });
+    if (typeof p.dep_date === 'string' && !ISO_DATE.test(p.dep_date)) errors.push({ path: 'dep_date', message: 'must be a date like "2025-09-21"' });
+    checkString(errors, p, 'estimated_cost_per_student', '');
+    checkNumber(errors, p, 'distance_km', '', { min: 0 });
+    checkNumber(errors, p, 'travel_time_h', '', { min: 0 });
+    checkString(errors, p, 'accompanying_teachers', '');
+    checkString(errors, p, 'why', '');
+
+    checkArray(errors, p, 'itinerary', '', (day, dayPath) => checkObject(errors, day, dayPath, d => {
+      checkNumber(errors, d, 'day', dayPath, { min: 1 });
+      checkString(errors, d, 'summary', dayPath, { optional: true });
+      checkArray(errors, d, 'blocks', dayPath, (block, blockPath) => checkObject(errors, block, blockPath, b => {
+        checkString(errors, b, 'title', blockPath, { nonEmpty: true });
+        ['start', 'end'].forEach(key => {
+          checkString(errors, b, key, blockPath);
+          if (typeof b[key] === 'string' && b[key] && !CLOCK.test(b[key])) errors.push({ path: at(blockPath, key), message: 'must be a time like "09:30"' });
+        });
+        if (!BLOCK_KINDS.includes(b.kind)) errors.push({ path: at(blockPath, 'kind'), message: `must be one of ${BLOCK_KINDS.join(', ')}` });
+        checkString(errors, b, 'location', blockPath, { optional: true });
+        checkNumber(errors, b, 'lat', blockPath, { optional: true, min: -90, max: 90 });
+        checkNumber(errors, b, 'lng', blockPath, { optional: true, min: -180, max: 180 });
+        checkNumber(errors, b, 'cost_eur', blockPath, { optional: true, min: 0 });
+      }));
+    }));
+
+    checkObject(errors, p.cost_breakdown, 'cost_breakdown', c => {
+      COST_FIELDS.forEach(key => checkNumber(errors, c, key, 'cost_breakdown'));
+      checkString(errors, c, 'transport_note', 'cost_breakdown');
+      checkString(errors, c, 'accom_note', 'cost_breakdown');
+      checkNumber(errors, c, 'second_driver', 'cost_breakdown', { optional: true, min: 0 });
+      checkArray(errors, c, 'legs', 'cost_breakdown', (leg, legPath) => checkObject(errors, leg, legPath, l => {
+        checkString(errors, l, 'from', legPath);
+        checkString(errors, l, 'to', legPath);
+        checkMode(errors, l, legPath);
+        ['distance_km', 'duration_h', 'cost'].forEach(key => checkNumber(errors, l, key, legPath, { min: 0 }));
+      }), true);
+    });
+
+    checkArray(errors, p, 'sources', '', (source, sourcePath) => checkObject(errors, source, sourcePath, s => {
+      checkString(errors, s, 'title', sourcePath);
+      checkString(errors, s, 'url', sourcePath, { optional: true, nullable: true });
+      checkNumber(errors, s, 'lat', sourcePath, { optional: true, min: -90, max: 90 });
+      checkNumber(errors, s, 'lng', sourcePath, { optional: true, min: -180, max: 180 });
+    }));
+
+    checkArray(errors, p, 'polyline', '', (point, pointPath) => checkCoords(errors, point, pointPath));
+    checkArray(errors, p, 'legs', '', (leg, legPath) => checkObject(errors, leg, legPath, l => {
+      checkString(errors, l, 'from', legPath);
+      checkString(errors, l, 'to', legPath);
+      checkMode(errors, l, legPath);
+      checkNumber(errors, l, 'distance_km', legPath, { min: 0 });
+      checkNumber(errors, l, 'duration_h', legPath, { min: 0 });
+      checkArray(errors, l, 'polyline', legPath, (point, pointPath) => checkCoords(errors, point, pointPath));
+    }), true);
+    checkArray(errors, p, 'itinerary_warnings', '', (w, wPath) => {
+      if (typeof w !== 'string') errors.push({ path: wPath, message: 'must be text' });
+    }, true);
+  });
+  return errors;
+}
@@ -0,0 +1,113 @@
+import { MAX_PLAN_COUNT, TRANSPORT_MODE_LABELS } from '../constants';
+import { FocusTag, PlanTier, PlanVariant, TransportMode, TripPlan, VariationAxis } from '../types';
+import { describeFocus } from './focusTaxonomy';
+
+/* ===========================
+   Plan alternatives: which combinations of destination, tier, transport, length and focus to build
+   =========================== */
+
+export const PLAN_TIERS: readonly PlanTier[] = ['budget', 'balanced', 'premium'];
+export const VARIATION_AXES: VariationAxis[] = ['destination', 'tier', 'transport', 'length', 'focus'];
+
+const BASE_TIER: PlanTier = 'balanced';
+const TRANSPORT_ALTERNATIVES: TransportMode[] = ['bus', 'train', 'plane'];
+
+export interface VariationBase {
+  destinations: number; // Destination options found; the first is the preferred one
+  transport: TransportMode | 'mixed';
+  days: number;
+  min_days: number;
+  max_days: number;
+  focus: FocusTag[];
+}
+
+// One alternative to build; the destination is an index into the options it was planned from
+export interface VariantSpec extends Omit<PlanVariant, 'destination'> {
+  destination: number;
+}
+
+export function clampPlanCount(n: number): number {
+  return Math.min(MAX_PLAN_COUNT, Math.max(1, Math.round(n) || 1));
+}
+
+// How many destination options are worth resolving for this request
+export function destinationsWanted(count: number, vary: VariationAxis[]): number {
+  return vary.includes('destination') ? clampPlanCount(count) : 1;
+}
+
+// Values an axis takes, base value first; an axis that is not varied keeps only the base value
+function axisValues(base: VariationBase, vary: VariationAxis[]) {
+  const varies = (axis: VariationAxis) => vary.includes(axis);
+  return {
+    destination: varies('destination') ? Array.from({ length: Math.max(1, base.destinations) }, (_, i) => i) : [0],
+    tier: varies('tier') ? [...PLAN_TIERS] : [BASE_TIER],
+    transport: varies('transport') ? Array.from(new Set([base.transport, ...TRANSPORT_ALTERNATIVES])) : [base.transport],
+    days: varies('length') ? Array.from(new Set([base.days, base.days - 1, base.days + 1])).filter(d => d >= base.min_days && d <= base.max_days) : [base.days],
+    focus: varies('focus') && base.focus.length > 1 ? [base.focus, ...base.focus.map(tag => [tag])] : [base.focus]
+  };
+}
+
+/**
+ * Picks `count` index tuples out of the cartesian product of `sizes`, greedily taking the
+ * combination whose values have been used least so far. The all-zero (base) combination comes
+ * first and the rest spread across every axis instead of exhausting one of them.
+ */
+export function pickCombinations(sizes: number[], count: number): number[][] {
+  const all: number[][] = sizes.reduce<number[][]>((acc, size) => acc.flatMap(t => Array.from({ length: size }, (_, i) => [...t, i])), [[]]);
+  const usage = sizes.map(size => new Array(size).fill(0));
+  const picked: number[][] = [];
+  const remaining = [...all];
+  while (picked.length < count && remaining.length > 0) {
+    let best = 0;
+    let bestScore = Number.POSITIVE_INFINITY;
+    remaining.forEach((t, i) => {
+      const score = t.reduce((sum, v, axis) => sum + usage[axis][v], 0);
+      if (score < bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    const [tuple] = remaining.splice(best, 1);
+    tuple.forEach((v, axis) => usage[axis][v]++);
+    picked.push(tuple);
+  }
+  return picked;
+}
+
+export function planVariants(base: VariationBase, vary: VariationAxis[], count: number): VariantSpec[] {
+  const values = axisValues(base, vary);
+  const sizes = [values.destination.length, values.tier.length, values.transport.length, values.days.length, values.focus.length];
+  return pickCombinations(sizes, clampPlanCount(count)).map(([d, t, m, l, f]) => ({
+    destination: values.destination[d],
+    tier: values.tier[t],
+    transport: values.transport[m],
+    days: values.days[l],
+    focus: values.focus[f]
+  }));
+}
+
+export const tierLabel = (tier: string) => tier.charAt(0).toUpperCase() + tier.slice(1);
+
+// Display value of a plan on one axis, shared by plan titles and the result matrix
+export function variantValue(variant: PlanVariant, axis: VariationAxis): string {
+  switch (axis) {
+    case 'destination': return variant.destination;
+    case 'tier': return tierLabel(variant.tier);
+    case 'transport': return variant.transport === 'mixed' ? 'Mixed' : TRANSPORT_MODE_LABELS[variant.transport];
+    case 'length': return `${variant.days} ${variant.days === 1 ? 'day' : 'days'}`;
+    case 'focus': return describeFocus(variant.focus) || 'General';
+  }
+}
+
+export type PlanFilter = Partial<Record<VariationAxis, string>>;
+
+// Axes along which the given plans actually differ, in display order
+export function matrixAxes(plans: TripPlan[]): VariationAxis[] {
+  const variants = plans.map(p => p.variant).filter((v): v is PlanVariant => !!v);
+  return VARIATION_AXES.filter(axis => new Set(variants.map(v => variantValue(v, axis))).size > 1);
+}
+
+export function planMatchesFilter(plan: TripPlan, filter: PlanFilter): boolean {
+  return (Object.keys(filter) as VariationAxis[]).every(axis =>
+    !filter[axis] || (!!plan.variant && variantValue(plan.variant, axis) === filter[axis]));
+}
@@ -0,0 +1,407 @@
+import { FocusTag, Poi } from '../types';
+import { haversineDistance } from './geoUtils';
+import { idbGet, idbPut, STORES } from './idb';
+import { serviceEnabled, serviceFetch } from './apiGateway';
+import { throwIfAborted, timeoutSignal } from './progress';
+import { sharedRequest } from './requestPool';
+import { FOCUS_TAXONOMY, poiMatchesFocus } from './focusTaxonomy';
+
+export interface PoiQuery {
+  lat: number;
+  lng: number;
+  radius_m: number;
+  focus: FocusTag[];
+  grade_level: string;
+}
+
+export interface PoiProvider {
+  id: string;
+  label: string;
+  default_timeout_ms: number;
+  fetch: (q: PoiQuery, signal?: AbortSignal) => Promise<Poi[]>;
+}
+
+export interface PoiProviderConfig {
+  id: string;
+  enabled: boolean;
+  timeout_ms: number;
+}
+
+const CONFIG_KEY = 'idss_poi_providers';
+const CURATED_KEY = 'idss_curated_venues';
+const CURATED_FILE = './curated_venues.geojson';
+
+/* ===========================
+   Providers
+   =========================== */
+
+const DEFAULT_WIKIDATA_CLASS = 'Q33506'; // museum
+
+async function wikidataPOIs(lat: number, lng: number, radius_km: number, focus: FocusTag[], signal?: AbortSignal): Promise<Poi[]> {
+  const classTags = new Map<string, FocusTag[]>();
+  FOCUS_TAXONOMY.filter(c => focus.includes(c.id)).forEach(c => c.wikidata.forEach(q => {
+    classTags.set(q, [...(classTags.get(q) || []), c.id]);
+  }));
+  const classes = classTags.size ? Array.from(classTags.keys()) : [DEFAULT_WIKIDATA_CLASS];
+
+  const sparql = `
+    SELECT DISTINCT ?item ?itemLabel ?coord ?site ?class WHERE {
+      VALUES ?class { ${classes.map(q => 'wd:' + q).join(' ')} }
+      SERVICE wikibase:box { ?item wdt:P625 ?coord . bd:serviceParam wikibase:center "Point(${lng} ${lat})"^^geo:wktLiteral . bd:serviceParam wikibase:radius "${radius_km}" . }
+      ?item wdt:P31/wdt:P279* ?class.
+      OPTIONAL { ?item wdt:P856 ?site. }
+      SERVICE wikibase:label { bd:serviceParam wikibase:language "[AUTO_LANGUAGE],en,bs,de,it" }
+    } LIMIT 50
+  `;
+  const url = 'https://query.wikidata.org/sparql?format=json&query=' + encodeURIComponent(sparql);
+  try {
+    const r = await fetch(url, { headers: { 'Accept': 'application/sparql-results+json' }, signal });
+    if (!r.ok) throw new Error('Wikidata ' + r.status);
+    const j = await r.json();
+    return j.results.bindings.map((b: any) => {
+      const coord = b.coord.value.replace('Point(', '').replace(')', '').split(' ');
+      return {
+        label: b.itemLabel.value,
+        lat: parseFloat(coord[1]),
+        lng: parseFloat(coord[0]),
+        url: b.site ? b.site.value : null,
+        source: 'wikidata',
+        kinds: classTags.get(b.class.value.split('/').pop()) || ['museum']
+      };
+    });
+  } catch (e) {
+    console.warn('wikidata fail', e);
+    return [];
+  }
+}
+
+async function fetchOpenTripMapPOIs(lat: number, lng: number, radius_m: number, focus: FocusTag[], signal?: AbortSignal): Promise<Poi[]> {
+  if (!serviceEnabled('opentripmap')) return [];
+
+  const focusKinds = FOCUS_TAXONOMY.filter(c => focus.includes(c.id)).flatMap(c => c.otm_kinds);
+  const kinds = focusKinds.length ? Array.from(new Set(focusKinds)).join(',') : 'interesting_places';
+  const rate = '2';
+
+  try {
+    const res = await serviceFetch('opentripmap', '/en/places/radius', {
+      query: { radius: radius_m, lon: lng, lat, kinds, rate, format: 'json', limit: 15 },
+      signal
+    });
+    if (!res.ok) throw new Error('OTM error ' + res.status);
+    const data = await res.json();
+
+    // FIX: Check if data is an array before mapping.
+    // If rate limit exceeded or error, API might return an object with error message.
+    if (!Array.isArray(data)) {
+        console.warn('OpenTripMap returned non-array:', data);
+        return [];
+    }
+
+    return data.map((item: any) => ({
+      label: item.name,
+      lat: item.point.lat,
+      lng: item.point.lon,
+      url: `https://opentripmap.com/en/card/${item.xid}`,
+      source: 'opentripmap',
+      kinds: typeof item.kinds === 'string' ? item.kinds.split(',') : undefined
+    })).filter((p: any) => p.label && p.label.trim().length > 0);
+  } catch (e) {
+    console.warn('OpenTripMap fail', e);
+    return [];
+  }
+}
+
+const MAX_ORS_TAGS = 4; // One request per OSM tag, so keep the fan-out small
+
+async function orsPOIsForTag(bbox: number[], [key, value]: [string, string], signal?: AbortSignal): Promise<Poi[]> {
+  const body = {
+    request: "pois",
+    geometry: { bbox: bbox, geojson: { type: "Polygon", coordinates: [[[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[2], bbox[3]], [bbox[0], bbox[3]], [bbox[0], bbox[1]]]] } },
+    filters: { "osm_tags": { [key]: value } },
+    size: 50
+  };
+  try {
+    const res = await serviceFetch('ors', '/pois', { body, signal });
+    if (!res.ok) throw new Error('ORS POI error ' + res.status);
+    const j = await res.json();
+    return (j.features || []).map((f: any) => {
+      const c = f.geometry.coordinates;
+      return {
+        label: f.properties.name || f.properties.tags?.name || f.properties.type || 'POI',
+        lat: c[1],
+        lng: c[0],
+        url: f.properties.website || f.properties.url || null,
+        source: 'ors',
+        kinds: [value]
+      };
+    });
+  } catch (e) {
+    console.warn('ORS POI fail', e);
+    return [];
+  }
+}
+
+async function orsPOIsAround(lon: number, lat: number, radius_m: number, focus: FocusTag[], signal?: AbortSignal): Promise<Poi[]> {
+  if (!serviceEnabled('ors')) return [];
+  const deg = radius_m / 111320;
+  const bbox = [lon - deg, lat - deg, lon + deg, lat + deg];
+  const tags = new Map<string, [string, string]>();
+  FOCUS_TAXONOMY.filter(c => focus.includes(c.id)).forEach(c => c.osm_tags.forEach(t => tags.set(t.join('='), t)));
+  const selected = tags.size ? Array.from(tags.values()).slice(0, MAX_ORS_TAGS) : [['tourism', 'museum'] as [string, string]];
+  const lists = await Promise.all(selected.map(t => orsPOIsForTag(bbox, t, signal)));
+  return lists.flat();
+}
+
+// Curated venues: the bundled GeoJSON file plus anything imported in the browser
+function parseVenues(data: any): Poi[] {
+  const features = Array.isArray(data) ? data : Array.isArray(data?.features) ? data.features : [];
+  return features.map((f: any) => {
+    const props = f.properties || f;
+    const coords = f.geometry?.coordinates;
+    const lat = coords ? coords[1] : parseFloat(props.lat);
+    const lng = coords ? coords[0] : parseFloat(props.lng ?? props.lon);
+    const kinds = Array.isArray(props.kinds) ? props.kinds : typeof props.kinds === 'string' ? props.kinds.split(',').map((k: string) => k.trim()) : undefined;
+    return {
+      label: props.name || props.label,
+      lat,
+      lng,
+      url: props.url || props.website || null,
+      source: 'curated',
+      kinds,
+      description: props.notes || props.description || undefined
+    };
+  }).filter((p: Poi) => p.label && !isNaN(p.lat) && !isNaN(p.lng));
+}
+
+let bundledVenues: Promise<Poi[]> | null = null;
+
+function loadBundledVenues(): Promise<Poi[]> {
+  if (!bundledVenues) {
+    bundledVenues = fetch(CURATED_FILE)
+      .then(res => res.ok ? res.json() : [])
+      .then(parseVenues)
+      .catch(e => {
+        console.warn('curated venues fail', e);
+        return [];
+      });
+  }
+  return bundledVenues;
+}
+
+export function loadImportedVenues(): Poi[] {
+  try {
+    const raw = localStorage.getItem(CURATED_KEY);
+    return raw ? parseVenues(JSON.parse(raw)) : [];
+  } catch (e) {
+    console.warn('imported venues fail', e);
+    return [];
+  }
+}
+
+export function importCuratedVenues(json: string): number {
+  const venues = parseVenues(JSON.parse(json));
+  if (venues.length === 0) throw new Error('No venues with a name and coordinates found.');
+  const merged = [...loadImportedVenues().filter(v => !venues.some(n => n.label === v.label)), ...venues];
+  localStorage.setItem(CURATED_KEY, JSON.stringify(merged.map(v => ({
+    name: v.label, lat: v.lat, lng: v.lng, url: v.url, kinds: v.kinds, notes: v.description
+  }))));
+  return venues.length;
+}
+
+async function curatedPOIs(q: PoiQuery): Promise<Poi[]> {
+  const all = [...await loadBundledVenues(), ...loadImportedVenues()];
+  return all.filter(p => haversineDistance(q.lat, q.lng, p.lat, p.lng) <= q.radius_m);
+}
+
+/* ===========================
+   Registry
+   =========================== */
+
+const registry = new Map<string, PoiProvider>();
+
+export function registerPoiProvider(provider: PoiProvider) {
+  registry.set(provider.id, provider);
+}
+
+registerPoiProvider({ id: 'curated', label: 'School curated venues', default_timeout_ms: 3000, fetch: curatedPOIs });
+registerPoiProvider({ id: 'opentripmap', label: 'OpenTripMap', default_timeout_ms: 8000, fetch: (q, signal) => fetchOpenTripMapPOIs(q.lat, q.lng, q.radius_m, q.focus, signal) });
+registerPoiProvider({ id: 'wikidata', label: 'Wikidata', default_timeout_ms: 12000, fetch: (q, signal) => wikidataPOIs(q.lat, q.lng, q.radius_m / 1000, q.focus, signal) });
+registerPoiProvider({ id: 'ors', label: 'OpenRouteService POIs', default_timeout_ms: 8000, fetch: (q, signal) => orsPOIsAround(q.lng, q.lat, q.radius_m, q.focus, signal) });
+
+export function getPoiProvider(id: string): PoiProvider | undefined {
+  return registry.get(id);
+}
+
+// Saved order and settings, with any newly registered provider appended enabled
+export function loadPoiProviderConfig(): PoiProviderConfig[] {
+  const known: PoiProviderConfig[] = [];
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      parsed.forEach(c => {
+        const provider = c && typeof c.id === 'string' ? registry.get(c.id) : undefined;
+        if (!provider || known.some(k => k.id === provider.id)) return;
+        known.push({
+          id: provider.id,
+          enabled: typeof c.enabled === 'boolean' ? c.enabled : true,
+          timeout_ms: Number.isFinite(c.timeout_ms) && c.timeout_ms > 0 ? c.timeout_ms : provider.default_timeout_ms
+        });
+      });
+    }
+  } catch (e) {
+    console.warn('poi provider config load fail', e);
+  }
+  registry.forEach(p => {
+    if (!known.some(c => c.id === p.id)) known.push({ id: p.id, enabled: true, timeout_ms: p.default_timeout_ms });
+  });
+  return known;
+}
+
+export function savePoiProviderConfig(config: PoiProviderConfig[]) {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T, label: string): Promise<T> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      console.warn(`${label} timed out after ${ms} ms`);
+      resolve(fallback);
+    }, ms);
+    promise.then(
+      v => { clearTimeout(timer); resolve(v); },
+      e => { clearTimeout(timer); console.warn(`${label} fail`, e); resolve(fallback); }
+    );
+  });
+}
+
+/* ===========================
+   Merge & Rank
+   =========================== */
+
+const DUPLICATE_RADIUS_M = 250;
+const NAME_SIMILARITY = 0.6;
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\b(the|muzej|museum|museo|museu|musee|of|i|and|und|der|die|das)\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function nameSimilarity(a: string, b: string): number {
+  const x = normalizeName(a), y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y || x.includes(y) || y.includes(x)) return 1;
+  const bigrams = (s: string) => {
+    const out = new Map<string, number>();
+    for (let i = 0; i < s.length - 1; i++) {
+      const g = s.slice(i, i + 2);
+      out.set(g, (out.get(g) || 0) + 1);
+    }
+    return out;
+  };
+  const bx = bigrams(x), by = bigrams(y);
+  let overlap = 0;
+  bx.forEach((count, g) => { overlap += Math.min(count, by.get(g) || 0); });
+  return (2 * overlap) / (x.length - 1 + y.length - 1);
+}
+
+function isDuplicate(a: Poi, b: Poi): boolean {
+  return haversineDistance(a.lat, a.lng, b.lat, b.lng) <= DUPLICATE_RADIUS_M && nameSimilarity(a.label, b.label) >= NAME_SIMILARITY;
+}
+
+// Earlier providers win; later duplicates only fill in missing details
+export function mergePois(lists: Poi[][]): Poi[] {
+  const merged: Poi[] = [];
+  for (const list of lists) {
+    for (const poi of list) {
+      const existing = merged.find(m => isDuplicate(m, poi));
+      if (!existing) {
+        merged.push({ ...poi });
+        continue;
+      }
+      if (!existing.url && poi.url) existing.url = poi.url;
+      if (!existing.description && poi.description) existing.description = poi.description;
+      existing.kinds = Array.from(new Set([...(existing.kinds || []), ...(poi.kinds || [])]));
+      existing.also_from = Array.from(new Set([...(existing.also_from || []), poi.source]));
+    }
+  }
+  return merged;
+}
+
+const YOUNG_GRADE_KINDS = ['zoo', 'aquarium', 'park', 'amusement', 'planetarium', 'science'];
+const OLDER_GRADE_KINDS = ['museum', 'historic', 'memorial', 'monument', 'university', 'architecture', 'gallery'];
+
+function scorePoi(poi: Poi, q: PoiQuery): number {
+  const haystack = `${poi.label} ${(poi.kinds || []).join(' ')}`.toLowerCase();
+
+  let score = 0;
+  q.focus.forEach(tag => { if (poiMatchesFocus(poi, tag)) score += 3; });
+
+  const grade = parseInt(q.grade_level, 10);
+  if (!isNaN(grade)) {
+    const preferred = grade <= 5 ? YOUNG_GRADE_KINDS : grade >= 9 ? OLDER_GRADE_KINDS : [];
+    preferred.forEach(k => { if (haystack.includes(k)) score += 2; });
+  }
+
+  if (poi.source === 'curated') score += 4; // Venues the school already trusts
+  if (poi.url) score += 1;
+  score += (poi.also_from?.length || 0); // Confirmed by several providers
+  // Slight preference for nearby venues
+  score -= haversineDistance(q.lat, q.lng, poi.lat, poi.lng) / Math.max(1, q.radius_m);
+  return Math.round(score * 100) / 100;
+}
+
+interface PoiCacheEntry {
+  pois: Poi[];
+  cached_at: number;
+}
+
+function poiCacheKey(q: PoiQuery): string {
+  return [q.lat.toFixed(3), q.lng.toFixed(3), q.radius_m, [...q.focus].sort().join('+'), q.grade_level].join('|');
+}
+
+function rank(lists: Poi[][], q: PoiQuery): Poi[] {
+  return mergePois(lists)
+    .map(p => ({ ...p, score: scorePoi(p, q) }))
+    .sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+/**
+ * Queries every enabled provider in registry order (each with its own timeout, after which its
+ * requests are aborted), merges near-duplicates and returns the venues ranked for the trip's
+ * focus and grade. Identical queries made while one is running, or shortly after, share its result.
+ */
+export async function gatherPois(q: PoiQuery, signal?: AbortSignal): Promise<Poi[]> {
+  const config = loadPoiProviderConfig().filter(c => c.enabled);
+  const key = `pois|${poiCacheKey(q)}|${config.map(c => c.id).join('+')}`;
+  return sharedRequest(key, () => queryProviders(q, config, signal), { signal, keep: pois => pois.length > 0 });
+}
+
+async function queryProviders(q: PoiQuery, config: PoiProviderConfig[], signal?: AbortSignal): Promise<Poi[]> {
+  const lists = await Promise.all(config.map(async c => {
+    const provider = registry.get(c.id)!;
+    const deadline = timeoutSignal(c.timeout_ms, signal);
+    try {
+      return await withTimeout(provider.fetch(q, deadline.signal), c.timeout_ms, [] as Poi[], provider.label);
+    } finally {
+      deadline.clear();
+    }
+  }));
+  // Partial results from a cancelled run must not end up in the offline cache
+  throwIfAborted(signal);
+  const ranked = rank(lists, q);
+  if (ranked.length > 0) await idbPut<PoiCacheEntry>(STORES.pois, poiCacheKey(q), { pois: ranked, cached_at: Date.now() });
+  return ranked;
+}
+
+// No-network variant: the last online result for the same query plus curated venues
+export async function offlinePois(q: PoiQuery): Promise<Poi[]> {
+  const cached = await idbGet<PoiCacheEntry>(STORES.pois, poiCacheKey(q));
+  return rank([await curatedPOIs(q), cached?.pois || []], q);
+}
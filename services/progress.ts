@@ -0,0 +1,76 @@
+import { ProgressEvent } from '../types';
+
+/* ===========================
+   Progress reporting and cancellation for long-running generation
+   =========================== */
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+export function abortError(): DOMException {
+  return new DOMException('Plan generation was cancelled.', 'AbortError');
+}
+
+export function isAbortError(e: unknown): boolean {
+  return (e as { name?: string } | null)?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortError();
+}
+
+// setTimeout that gives up as soon as the signal fires
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// A signal that fires when the parent does or after `ms`, whichever comes first
+export function timeoutSignal(ms: number, parent?: AbortSignal): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  const timer = setTimeout(onAbort, ms);
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Runs `work` as a named step: reports it running, then done, failed or cancelled, and checks
+ * the signal on both sides so a cancelled generation stops at the next step boundary.
+ */
+export function progressReporter({ signal, onProgress }: GenerationOptions) {
+  const emit = (event: ProgressEvent) => onProgress?.(event);
+  return async function step<T>(id: string, label: string, work: () => Promise<T>, describe?: (result: T) => string): Promise<T> {
+    throwIfAborted(signal);
+    emit({ id, label, status: 'running' });
+    try {
+      const result = await work();
+      throwIfAborted(signal);
+      emit({ id, label, status: 'done', detail: describe?.(result) });
+      return result;
+    } catch (e) {
+      const cancelled = isAbortError(e) || !!signal?.aborted;
+      emit({ id, label, status: cancelled ? 'cancelled' : 'failed', detail: cancelled ? undefined : String((e as Error)?.message || e) });
+      throw cancelled ? abortError() : e;
+    }
+  };
+}
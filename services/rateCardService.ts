@@ -0,0 +1,192 @@
+import { RATES, SEASON_MONTHS } from '../constants';
+import { GeoLocation, RateCard, RateCardRef, RateSet, Season } from '../types';
+
+const STORAGE_KEY = 'idss_rate_cards';
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  id: 'default',
+  name: 'Built-in defaults',
+  version: 1,
+  region: '*',
+  season: 'all',
+  valid_from: '2000-01-01',
+  valid_to: null,
+  updated_at: '2025-01-01T00:00:00.000Z',
+  rates: RATES
+};
+
+export function toIsoDate(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+export function rateCardRef(card: RateCard): RateCardRef {
+  return { id: card.id, name: card.name, version: card.version };
+}
+
+/* ===========================
+   Storage
+   =========================== */
+
+export function loadRateCards(): RateCard[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(normalizeRateCard).filter((c): c is RateCard => c !== null) : [];
+  } catch (e) {
+    console.warn('rate cards load fail', e);
+    return [];
+  }
+}
+
+function persist(cards: RateCard[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+}
+
+// Saves a card, bumping its version when it replaces an existing one
+export function upsertRateCard(card: RateCard): RateCard[] {
+  const cards = loadRateCards();
+  const idx = cards.findIndex(c => c.id === card.id);
+  const stamped = { ...card, updated_at: new Date().toISOString() };
+  if (idx >= 0) {
+    cards[idx] = { ...stamped, version: cards[idx].version + 1 };
+  } else {
+    cards.push({ ...stamped, version: Math.max(1, card.version) });
+  }
+  persist(cards);
+  return cards;
+}
+
+export function deleteRateCard(id: string): RateCard[] {
+  const cards = loadRateCards().filter(c => c.id !== id);
+  persist(cards);
+  return cards;
+}
+
+export function createRateCard(base: RateCard = DEFAULT_RATE_CARD): RateCard {
+  return {
+    ...base,
+    id: `rc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name: base.id === 'default' ? 'New rate card' : `${base.name} (copy)`,
+    version: 1,
+    valid_from: toIsoDate(new Date()),
+    updated_at: new Date().toISOString(),
+    rates: { ...base.rates }
+  };
+}
+
+/* ===========================
+   Import / Export
+   =========================== */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rates given as a fraction (0-1) rather than an amount
+const SHARE_RATES: (keyof RateSet)[] = ['teacher_discount', 'activity_fee_share', 'contingency_share'];
+
+// Whether a rate can be used in costing: a bus seats at least one person, shares stay within 0-1
+export function isValidRate(key: keyof RateSet, value: number): boolean {
+  if (!Number.isFinite(value) || value < 0) return false;
+  if (key === 'bus_capacity') return Number.isInteger(value) && value >= 1;
+  return !SHARE_RATES.includes(key) || value <= 1;
+}
+
+export function invalidRates(rates: RateSet): (keyof RateSet)[] {
+  return (Object.keys(RATES) as (keyof RateSet)[]).filter(key => !isValidRate(key, rates[key]));
+}
+
+// Cards with unreadable or inverted validity dates are dropped: dates are compared as strings
+function normalizeRateCard(raw: any): RateCard | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !raw.rates) return null;
+  const validFrom = raw.valid_from ?? DEFAULT_RATE_CARD.valid_from;
+  const validTo = raw.valid_to || null;
+  if (typeof validFrom !== 'string' || !ISO_DATE.test(validFrom)) return null;
+  if (validTo !== null && (typeof validTo !== 'string' || !ISO_DATE.test(validTo) || validTo < validFrom)) return null;
+  const rates = { ...RATES };
+  for (const key of Object.keys(RATES) as (keyof RateSet)[]) {
+    if (raw.rates[key] === undefined) continue;
+    let v = Number(raw.rates[key]);
+    if (SHARE_RATES.includes(key) && Number.isFinite(v)) v = Math.min(1, Math.max(0, v));
+    if (isValidRate(key, v)) rates[key] = v;
+  }
+  const season: Season = typeof raw.season === 'string' && Object.prototype.hasOwnProperty.call(SEASON_MONTHS, raw.season) ? raw.season : 'all';
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createRateCard().id,
+    name: raw.name,
+    version: Number.isInteger(raw.version) && raw.version > 0 ? raw.version : 1,
+    region: typeof raw.region === 'string' && raw.region.trim() ? raw.region.trim() : '*',
+    season,
+    valid_from: validFrom,
+    valid_to: validTo,
+    updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : new Date().toISOString(),
+    rates
+  };
+}
+
+export function exportRateCards(cards: RateCard[]): string {
+  return JSON.stringify({ type: 'idss-rate-cards', cards }, null, 2);
+}
+
+// Merges cards from an exported file; incoming cards replace local ones with the same id and a lower version
+export function importRateCards(json: string): { cards: RateCard[]; imported: number } {
+  const parsed = JSON.parse(json);
+  const list: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.cards) ? parsed.cards : [parsed];
+  const incoming = list.map(normalizeRateCard).filter((c): c is RateCard => c !== null);
+  if (incoming.length === 0) throw new Error('No valid rate cards found in file.');
+
+  const cards = loadRateCards();
+  let imported = 0;
+  for (const card of incoming) {
+    const idx = cards.findIndex(c => c.id === card.id);
+    if (idx < 0) {
+      cards.push(card);
+      imported++;
+    } else if (cards[idx].version < card.version) {
+      cards[idx] = card;
+      imported++;
+    }
+  }
+  persist(cards);
+  return { cards, imported };
+}
+
+/* ===========================
+   Selection
+   =========================== */
+
+// The card's region must equal the place's country code, country or region; "BA" does not match "Banja Luka"
+function regionMatches(card: RateCard, place: GeoLocation | null): boolean {
+  if (card.region === '*') return true;
+  if (!place) return false;
+  const region = card.region.trim().toLowerCase();
+  return [place.country_code, place.country, place.admin_region]
+    .filter((v): v is string => !!v)
+    .some(v => v.trim().toLowerCase() === region);
+}
+
+/**
+ * Picks the most specific card valid for the destination and departure date:
+ * regional beats global, seasonal beats all-year, then the newest card wins.
+ */
+export function selectRateCard(cards: RateCard[], place: GeoLocation | null, date: Date): RateCard {
+  const day = toIsoDate(date);
+  const month = date.getMonth() + 1;
+
+  const eligible = cards.filter(c =>
+    c.valid_from <= day &&
+    (!c.valid_to || c.valid_to >= day) &&
+    (c.season === 'all' || SEASON_MONTHS[c.season].includes(month)) &&
+    regionMatches(c, place)
+  );
+  if (eligible.length === 0) return DEFAULT_RATE_CARD;
+
+  const specificity = (c: RateCard) => (c.region !== '*' ? 2 : 0) + (c.season !== 'all' ? 1 : 0);
+  eligible.sort((a, b) =>
+    specificity(b) - specificity(a) ||
+    b.valid_from.localeCompare(a.valid_from) ||
+    b.version - a.version
+  );
+  return eligible[0];
+}
@@ -0,0 +1,102 @@
+import { REQUEST_CACHE_TTL_MS, REQUEST_CONCURRENCY } from '../constants';
+import { abortError, isAbortError, throwIfAborted } from './progress';
+
+/* ===========================
+   Bounded concurrency and in-memory request sharing
+   =========================== */
+
+/**
+ * Maps `items` through `work` with at most `limit` calls in flight, keeping the input order.
+ * The first rejection stops new calls from starting and is rethrown once the running ones settle.
+ */
+export async function mapPool<T, R>(items: T[], work: (item: T, index: number) => Promise<R>, limit = REQUEST_CONCURRENCY): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  let failure: unknown;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await work(items[i], i);
+      } catch (e) {
+        if (!failed) failure = e;
+        failed = true;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  if (failed) throw failure;
+  return results;
+}
+
+interface SharedEntry {
+  promise: Promise<unknown>;
+  signal?: AbortSignal; // Of the caller that started the request
+  settled: boolean;
+  expires: number;
+}
+
+const MAX_SHARED_ENTRIES = 300;
+const shared = new Map<string, SharedEntry>();
+
+// Stops waiting on a request started by someone else as soon as our own signal fires
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      v => { signal.removeEventListener('abort', onAbort); resolve(v); },
+      e => { signal.removeEventListener('abort', onAbort); reject(e); }
+    );
+  });
+}
+
+export interface SharedRequestOptions<T> {
+  signal?: AbortSignal;
+  keep?: (value: T) => boolean; // Whether a settled value may serve later calls; empty fallbacks usually should not
+}
+
+/**
+ * Runs `work` once per `key`: identical calls made while it is in flight, or within
+ * REQUEST_CACHE_TTL_MS after it succeeded, get the same result. Failures are never kept, and a
+ * request whose starter cancelled is not handed to anyone else.
+ */
+export async function sharedRequest<T>(key: string, work: () => Promise<T>, options: SharedRequestOptions<T> = {}): Promise<T> {
+  const { signal, keep } = options;
+  throwIfAborted(signal);
+  const now = Date.now();
+  const hit = shared.get(key);
+  if (hit && hit.expires > now && (hit.settled || !hit.signal?.aborted)) {
+    try {
+      return await untilAborted(hit.promise as Promise<T>, signal);
+    } catch (e) {
+      // The starter cancelled mid-flight; unless we did too, make our own request
+      if (!isAbortError(e) || signal?.aborted) throw e;
+    }
+  }
+
+  // Services swallow their own aborts and return a fallback, which must not reach anyone else
+  const promise = work().then(v => {
+    throwIfAborted(signal);
+    return v;
+  });
+  const entry: SharedEntry = { promise, signal, settled: false, expires: now + REQUEST_CACHE_TTL_MS };
+  shared.delete(key);
+  shared.set(key, entry);
+  if (shared.size > MAX_SHARED_ENTRIES) shared.delete(shared.keys().next().value as string);
+  const forget = () => {
+    if (shared.get(key) === entry) shared.delete(key);
+  };
+  try {
+    const value = await (entry.promise as Promise<T>);
+    entry.settled = true;
+    if (keep && !keep(value)) forget();
+    return value;
+  } catch (e) {
+    forget();
+    throw e;
+  }
+}
@@ -0,0 +1,156 @@
+import { GeoLocation, RouteOptimization } from '../types';
+import { haversineDistance } from './geoUtils';
+import { serviceEnabled, serviceFetch } from './apiGateway';
+import { sharedRequest } from './requestPool';
+
+interface TravelMatrix {
+  durations_s: number[][];
+  distances_m: number[][];
+  source: 'ors' | 'haversine';
+}
+
+export interface OrderOptions {
+  lock_first: boolean;
+  lock_last: boolean;
+}
+
+// Exhaustive search stays cheap up to 7 free stops (5040 permutations)
+const MAX_EXHAUSTIVE_STOPS = 7;
+
+/* ===========================
+   Matrix
+   =========================== */
+
+function orsMatrix(points: GeoLocation[], signal?: AbortSignal): Promise<TravelMatrix | null> {
+  const key = `matrix|${points.map(p => `${p.lat},${p.lng}`).join(';')}`;
+  return sharedRequest(key, () => fetchOrsMatrix(points, signal), { signal, keep: m => m !== null });
+}
+
+async function fetchOrsMatrix(points: GeoLocation[], signal?: AbortSignal): Promise<TravelMatrix | null> {
+  if (!serviceEnabled('ors')) return null;
+  try {
+    const res = await serviceFetch('ors', '/v2/matrix/driving-car', {
+      body: { locations: points.map(p => [p.lng, p.lat]), metrics: ['distance', 'duration'] },
+      signal
+    });
+    if (!res.ok) throw new Error('ORS matrix ' + res.status);
+    const j = await res.json();
+    if (!Array.isArray(j.durations) || !Array.isArray(j.distances)) return null;
+    // Unroutable pairs come back as null; treat them as unusable
+    const clean = (m: (number | null)[][]) => m.map(row => row.map(v => v === null ? Number.POSITIVE_INFINITY : v));
+    return { durations_s: clean(j.durations), distances_m: clean(j.distances), source: 'ors' };
+  } catch (e) {
+    console.warn('ors matrix fail', e);
+    return null;
+  }
+}
+
+function haversineMatrix(points: GeoLocation[]): TravelMatrix {
+  const distances_m = points.map(a => points.map(b => haversineDistance(a.lat, a.lng, b.lat, b.lng)));
+  return {
+    distances_m,
+    durations_s: distances_m.map(row => row.map(m => (m / 50000) * 3600)),
+    source: 'haversine'
+  };
+}
+
+export async function buildTravelMatrix(points: GeoLocation[], signal?: AbortSignal): Promise<TravelMatrix> {
+  return await orsMatrix(points, signal) || haversineMatrix(points);
+}
+
+/* ===========================
+   Ordering
+   =========================== */
+
+// Cost of the closed loop origin (index 0) -> stops in `order` (1-based matrix indices) -> origin
+function loopTotal(m: number[][], order: number[]): number {
+  let total = 0;
+  let prev = 0;
+  for (const i of order) {
+    total += m[prev][i];
+    prev = i;
+  }
+  return total + m[prev][0];
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  const out: number[][] = [];
+  items.forEach((item, i) => {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    permutations(rest).forEach(p => out.push([item, ...p]));
+  });
+  return out;
+}
+
+// Nearest-neighbour start improved by 2-opt swaps, for routes too long to enumerate
+function heuristicOrder(m: number[][], head: number[], free: number[], tail: number[]): number[] {
+  const remaining = [...free];
+  const middle: number[] = [];
+  let prev = head.length ? head[head.length - 1] : 0;
+  while (remaining.length) {
+    let bestIdx = 0;
+    remaining.forEach((r, i) => { if (m[prev][r] < m[prev][remaining[bestIdx]]) bestIdx = i; });
+    prev = remaining[bestIdx];
+    middle.push(prev);
+    remaining.splice(bestIdx, 1);
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < middle.length - 1; i++) {
+      for (let k = i + 1; k < middle.length; k++) {
+        const candidate = [...middle.slice(0, i), ...middle.slice(i, k + 1).reverse(), ...middle.slice(k + 1)];
+        if (loopTotal(m, [...head, ...candidate, ...tail]) < loopTotal(m, [...head, ...middle, ...tail])) {
+          middle.splice(0, middle.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Reorders stops to minimise total driving time of the loop from and back to the origin.
+ * Returns the new order as indices into `stops` plus the savings against the typed order.
+ */
+export async function optimizeStopOrder(origin: GeoLocation, stops: GeoLocation[], options: OrderOptions, signal?: AbortSignal): Promise<{ order: number[]; summary: RouteOptimization }> {
+  const typedOrder = stops.map((_, i) => i);
+  const matrix = await buildTravelMatrix([origin, ...stops], signal);
+  const m = matrix.durations_s;
+
+  // Matrix indices are offset by one because the origin sits at index 0
+  const all = stops.map((_, i) => i + 1);
+  const head = options.lock_first && all.length > 1 ? [all[0]] : [];
+  const tail = options.lock_last && all.length > head.length + 1 ? [all[all.length - 1]] : [];
+  const free = all.filter(i => !head.includes(i) && !tail.includes(i));
+
+  let best: number[];
+  if (free.length <= MAX_EXHAUSTIVE_STOPS) {
+    best = [...head, ...free, ...tail];
+    for (const p of permutations(free)) {
+      const candidate = [...head, ...p, ...tail];
+      if (loopTotal(m, candidate) < loopTotal(m, best)) best = candidate;
+    }
+  } else {
+    best = heuristicOrder(m, head, free, tail);
+  }
+
+  const typedIdx = typedOrder.map(i => i + 1);
+  const order = best.map(i => i - 1);
+  const savedKm = (loopTotal(matrix.distances_m, typedIdx) - loopTotal(matrix.distances_m, best)) / 1000;
+  const savedH = (loopTotal(m, typedIdx) - loopTotal(m, best)) / 3600;
+
+  return {
+    order,
+    summary: {
+      typed_order: stops.map(s => s.name),
+      optimized_order: order.map(i => stops[i].name),
+      saved_km: Number.isFinite(savedKm) ? Math.round(savedKm * 10) / 10 : 0,
+      saved_h: Number.isFinite(savedH) ? Math.round(savedH * 10) / 10 : 0,
+      source: matrix.source
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { TRANSPORT_MODE_LABELS } from '../constants';
+import { FocusTag, PlanningSession, TransportMode, TripFormState, TripPlan, VariationAxis } from '../types';
+import { FOCUS_TAXONOMY } from './focusTaxonomy';
+import { PlanSchemaError, upgradePlan, withSchemaVersion } from './planSchema';
+import { VARIATION_AXES } from './planVariants';
+
+/* ===========================
+   Planning sessions: project files and the autosaved form draft
+   =========================== */
+
+const DRAFT_KEY = 'idss_form_draft';
+const PROJECT_KIND = 'idss_project';
+const PROJECT_VERSION = 1;
+
+export interface ProjectFile {
+  kind: typeof PROJECT_KIND;
+  version: number;
+  saved_at: string;
+  session: PlanningSession;
+}
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isMode = (v: unknown): v is TransportMode => typeof v === 'string' && Object.prototype.hasOwnProperty.call(TRANSPORT_MODE_LABELS, v);
+const isAxis = (v: unknown): v is VariationAxis => VARIATION_AXES.includes(v as VariationAxis);
+const isGeo = (v: unknown): boolean => isRecord(v) && Number.isFinite(v.lat) && Number.isFinite(v.lng) && typeof v.name === 'string';
+const isFocusTag = (v: unknown): v is FocusTag => FOCUS_TAXONOMY.some(c => c.id === v);
+
+/**
+ * Takes the fields of `raw` that have the same type as in `defaults` and fills the rest from
+ * `defaults`, so drafts and projects from older versions of the form still load.
+ */
+export function normalizeForm(raw: unknown, defaults: TripFormState): TripFormState {
+  if (!isRecord(raw)) return defaults;
+  const form: any = { ...defaults };
+  (Object.keys(defaults) as (keyof TripFormState)[]).forEach(key => {
+    let value = raw[key];
+    // Number inputs hand their value over as text
+    if (typeof defaults[key] === 'number' && typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) value = Number(value);
+    if (value === undefined || Array.isArray(value) !== Array.isArray(defaults[key]) || typeof value !== typeof defaults[key]) return;
+    form[key] = value;
+  });
+  // Items and choices from a file or link are checked against what the form can offer
+  if (form.transport_pref !== 'mixed' && !isMode(form.transport_pref)) form.transport_pref = defaults.transport_pref;
+  if (!isMode(form.return_mode)) form.return_mode = defaults.return_mode;
+  if (form.scope !== 'specific' && form.scope !== 'regional') form.scope = defaults.scope;
+  form.focus = Array.from(new Set(form.focus.filter(isFocusTag)));
+  form.vary = Array.from(new Set(form.vary.filter(isAxis)));
+  // The per-destination lists have to stay parallel to destinations
+  form.destinations = form.destinations.map((d: unknown) => typeof d === 'string' ? d : '');
+  if (form.destinations.length === 0) form.destinations = [''];
+  const n = form.destinations.length;
+  form.destination_geos = Array.from({ length: n }, (_, i) => isGeo(form.destination_geos[i]) ? form.destination_geos[i] : null);
+  form.leg_modes = Array.from({ length: n }, (_, i) => isMode(form.leg_modes[i]) ? form.leg_modes[i] : 'bus');
+  return form;
+}
+
+export function loadFormDraft(defaults: TripFormState): TripFormState {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    return raw ? normalizeForm(JSON.parse(raw), defaults) : defaults;
+  } catch (e) {
+    console.warn('Form draft unreadable', e);
+    return defaults;
+  }
+}
+
+export function saveFormDraft(form: TripFormState) {
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(form));
+  } catch (e) {
+    console.warn('Could not autosave the form', e);
+  }
+}
+
+export function clearFormDraft() {
+  localStorage.removeItem(DRAFT_KEY);
+}
+
+// The plan a session is listed under in the library
+export function sessionHeadline(session: PlanningSession): TripPlan | undefined {
+  const plans = session.result?.plans || [];
+  return (session.chosen_plan !== null ? plans[session.chosen_plan] : undefined) || plans[0];
+}
+
+const indexIn = (value: unknown, length: number): number | null =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length ? value as number : null;
+
+/** Checks and upgrades a stored session; plans go through the plan schema, indices are dropped when out of range. */
+export function normalizeSession(raw: unknown, defaults: TripFormState): PlanningSession {
+  if (!isRecord(raw)) throw new Error('Project has no session data.');
+  let plans: TripPlan[] = [];
+  if (isRecord(raw.result)) {
+    if (!Array.isArray(raw.result.plans)) throw new Error('Project result has no plan list.');
+    plans = raw.result.plans.map((p: unknown, i: number) => {
+      try {
+        return upgradePlan(p);
+      } catch (e) {
+        if (e instanceof PlanSchemaError) throw new Error(`Plan ${i + 1} in the project: ${e.message}`);
+        throw e;
+      }
+    });
+  }
+  const origin = isRecord(raw.result?.origin) && Number.isFinite(raw.result.origin.lat) && Number.isFinite(raw.result.origin.lng) ? raw.result.origin : null;
+  return {
+    form: normalizeForm(raw.form, defaults),
+    result: isRecord(raw.result) ? { plans, origin } : null,
+    chosen_plan: indexIn(raw.chosen_plan, plans.length),
+    focused_plan: indexIn(raw.focused_plan, plans.length),
+    plan_filter: isRecord(raw.plan_filter) ? raw.plan_filter : {},
+    compare_set: Array.isArray(raw.compare_set) ? raw.compare_set.filter((i: unknown) => indexIn(i, plans.length) !== null) : [],
+    show_compare: raw.show_compare === true
+  };
+}
+
+export function exportProject(session: PlanningSession): string {
+  const file: ProjectFile = {
+    kind: PROJECT_KIND,
+    version: PROJECT_VERSION,
+    saved_at: new Date().toISOString(),
+    session: session.result ? { ...session, result: { ...session.result, plans: session.result.plans.map(withSchemaVersion) } } : session
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function isProjectFile(data: unknown): boolean {
+  return isRecord(data) && data.kind === PROJECT_KIND;
+}
+
+export function parseProject(data: unknown, defaults: TripFormState): PlanningSession {
+  if (!isProjectFile(data)) throw new Error('Not a project file.');
+  const file = data as Record<string, any>;
+  if (!Number.isInteger(file.version) || file.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project file version ${file.version}; this planner reads up to ${PROJECT_VERSION}.`);
+  }
+  return normalizeSession(file.session, defaults);
+}
@@ -0,0 +1,94 @@
+import { MAX_SHARE_URL_LENGTH } from '../constants';
+import { PlanningSession, TripFormState, TripPlan } from '../types';
+import { upgradePlan, withSchemaVersion } from './planSchema';
+import { normalizeSession } from './sessionService';
+
+/* ===========================
+   Share links: a plan or a whole session, compressed into the URL fragment
+   =========================== */
+
+const FRAGMENT_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+// First character of the payload: how the rest is encoded
+const DEFLATED = 'z';
+const PLAIN = 'j'; // Browsers without CompressionStream
+
+export type SharePayload =
+  | { kind: 'plan'; plan: TripPlan }
+  | { kind: 'session'; session: PlanningSession };
+
+export interface ShareLink {
+  url: string;
+  too_large: boolean; // Longer than MAX_SHARE_URL_LENGTH; offer a file instead
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+// Route lines dominate the size; 5 decimals is about a metre
+function compactPlan(plan: TripPlan): TripPlan {
+  const round = (line: [number, number][]) => line.map(([lat, lng]) => [Math.round(lat * 1e5) / 1e5, Math.round(lng * 1e5) / 1e5] as [number, number]);
+  return withSchemaVersion({
+    ...plan,
+    polyline: round(plan.polyline),
+    legs: plan.legs?.map(l => ({ ...l, polyline: round(l.polyline) }))
+  });
+}
+
+function compactPayload(payload: SharePayload): SharePayload {
+  if (payload.kind === 'plan') return { kind: 'plan', plan: compactPlan(payload.plan) };
+  const { result } = payload.session;
+  return { kind: 'session', session: { ...payload.session, result: result && { ...result, plans: result.plans.map(compactPlan) } } };
+}
+
+export async function createShareLink(payload: SharePayload): Promise<ShareLink> {
+  const bytes = new TextEncoder().encode(JSON.stringify({ v: SHARE_VERSION, ...compactPayload(payload) }));
+  const encoded = typeof CompressionStream === 'undefined'
+    ? PLAIN + toBase64Url(bytes)
+    : DEFLATED + toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+  const url = `${window.location.origin}${window.location.pathname}${FRAGMENT_PREFIX}${encoded}`;
+  return { url, too_large: url.length > MAX_SHARE_URL_LENGTH };
+}
+
+// The encoded payload when the URL fragment is a share link
+export function shareFragment(hash: string): string | null {
+  return hash.startsWith(FRAGMENT_PREFIX) ? hash.slice(FRAGMENT_PREFIX.length) : null;
+}
+
+/** Decodes a share link payload; plans and sessions go through the same checks as files. */
+export async function readShareLink(encoded: string, defaults: TripFormState): Promise<SharePayload> {
+  let data: any;
+  try {
+    const body = fromBase64Url(encoded.slice(1));
+    let bytes: Uint8Array;
+    if (encoded[0] === DEFLATED) {
+      if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot read compressed links.');
+      bytes = await transform(body, new DecompressionStream('deflate-raw'));
+    } else if (encoded[0] === PLAIN) {
+      bytes = body;
+    } else {
+      throw new Error('Unknown link format.');
+    }
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e: any) {
+    throw new Error(`The link is damaged or incomplete (${e.message}).`);
+  }
+  if (data?.v !== SHARE_VERSION) throw new Error(`Unsupported link version ${data?.v}.`);
+  if (data.kind === 'plan') return { kind: 'plan', plan: upgradePlan(data.plan) };
+  if (data.kind === 'session') return { kind: 'session', session: normalizeSession(data.session, defaults) };
+  throw new Error('The link holds neither a plan nor a project.');
+}
@@ -0,0 +1,249 @@
+import { TRANSPORT_MODE_LABELS } from '../constants';
+import { GeoLocation, ItineraryBlockKind, ItineraryDay, Poi, RateSet, RouteLeg } from '../types';
+import { breakMinutes, legDay } from './driverHours';
+import { parseClock, toClock } from './itinerary';
+
+/* ===========================
+   Rule-based itinerary (no network, no LLM)
+   =========================== */
+
+interface Place {
+  title: string;
+  lat: number;
+  lng: number;
+}
+
+export interface TemplateBlock {
+  start: number; // Minutes after midnight
+  end: number;
+  kind: ItineraryBlockKind;
+  title: string;
+  place?: Place;
+  cost_eur?: number;
+  notes?: string;
+}
+
+export interface TemplateInput {
+  origin: GeoLocation;
+  stops: GeoLocation[];
+  legs: RouteLeg[]; // Closed loop: the last leg is the way home
+  days: number;
+  pois_by_stop: Poi[][];
+  grade_level: string;
+  rates?: RateSet; // Prices meals and entry fees per block when given
+  return_by?: string; // "HH:MM", defaults to 20:00
+}
+
+const h = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+const DEPARTURE = h(8);
+const BREAKFAST = h(7, 30);
+const BREAKFAST_MIN = 45;
+const CHECK_OUT_MIN = 30;
+const LUNCH_FROM = h(12);
+const LUNCH_TARGET = h(12, 30);
+const LUNCH_UNTIL = h(14);
+const LUNCH_MIN = 60;
+const ROAD_LUNCH_MIN = 45;
+const ROAD_LUNCH_AFTER_MIN = 180; // Only long journeys stop for lunch on the way
+const TRANSFER_MIN = 15;
+const MIN_VISIT = 60;
+const SIGHTSEEING_END = h(17, 30);
+const CHECK_IN_FROM = h(15);
+const CHECK_IN_MIN = 30;
+const DINNER = h(19);
+const DINNER_MIN = 60;
+const RETURN_BY = h(20);
+const LATEST_END = h(23); // Nothing optional (visits, dinner) is planned to end later than this
+const LAST_MINUTE = h(23, 59); // Blocks are cut here rather than wrapping past midnight
+
+// Used in order once a stop has run out of POIs
+const FILLERS = [
+  (place: string) => `Guided walk through ${place}`,
+  (place: string) => `Free time in ${place}`,
+  () => 'Group reflection and worksheet session'
+];
+
+const LUNCH_SHARE = 0.45; // Of the daily meal allowance; breakfast comes with the room
+const DINNER_SHARE = 0.55;
+
+const roundTo5 = (min: number) => Math.round(min / 5) * 5;
+
+// Younger groups get shorter visits
+function visitMinutes(grade: string): number {
+  const g = parseInt(grade, 10);
+  return !isNaN(g) && g <= 5 ? 90 : 120;
+}
+
+function travelMinutes(leg: RouteLeg): number {
+  const driving = roundTo5(leg.duration_h * 60);
+  return leg.mode === 'bus' ? driving + breakMinutes(leg.duration_h) : driving;
+}
+
+export interface TemplateSchedule {
+  days: TemplateBlock[][];
+  warnings: string[]; // Days the route cannot fit into, for the plan's schedule check
+}
+
+// Cuts a day at midnight, noting on the cut block when it really ends
+function capDay(blocks: TemplateBlock[], day: number, warnings: string[]): TemplateBlock[] {
+  const overrun = Math.max(...blocks.map(b => b.end));
+  if (overrun <= LAST_MINUTE) return blocks;
+  warnings.push(`Day ${day}: the travel runs until about ${toClock(overrun)} the next day. Add a day or choose a closer destination.`);
+  return blocks
+    .filter(b => b.start < LAST_MINUTE)
+    .map(b => b.end <= LAST_MINUTE ? b : {
+      ...b,
+      end: LAST_MINUTE,
+      notes: [b.notes, `Continues past midnight until about ${toClock(b.end)}.`].filter(Boolean).join(' ')
+    });
+}
+
+/**
+ * Builds a day-by-day schedule from the route alone: legs fall on the same days as in the
+ * driver-hours check, visits fill the time at each stop from its POI list, and the last day
+ * works backwards from the return journey so the group is home by `return_by` where possible.
+ * Days the travel does not fit into are cut at midnight and reported in `warnings`.
+ */
+export function buildTemplateSchedule(input: TemplateInput): TemplateSchedule {
+  const days = Math.max(1, input.days);
+  const returnIdx = input.legs.length - 1;
+  const visitLen = visitMinutes(input.grade_level);
+  const returnBy = parseClock(input.return_by) ?? RETURN_BY;
+  const used = new Set<string>();
+  const mealCost = (share: number) => input.rates ? Math.round(input.rates.meals_per_person_per_day * share * 100) / 100 : undefined;
+  const originPlace: Place = { title: input.origin.name, lat: input.origin.lat, lng: input.origin.lng };
+  const stopPlace = (i: number): Place => i >= 0 ? { title: input.stops[i].name, lat: input.stops[i].lat, lng: input.stops[i].lng } : originPlace;
+  let here = -1; // Index into stops, -1 while still at the origin
+  const schedule: TemplateBlock[][] = [];
+  const warnings: string[] = [];
+
+  for (let d = 1; d <= days; d++) {
+    const blocks: TemplateBlock[] = [];
+    let t = DEPARTURE;
+    let lunched = false;
+    let arrivedToday = false;
+
+    const add = (kind: ItineraryBlockKind, minutes: number, title: string, extra: Partial<TemplateBlock> = {}) => {
+      blocks.push({ start: t, end: t + minutes, kind, title, ...extra });
+      t += minutes;
+    };
+
+    const travel = (leg: RouteLeg, title: string, to: Place) => {
+      const total = travelMinutes(leg);
+      const mode = TRANSPORT_MODE_LABELS[leg.mode].toLowerCase();
+      const breaks = leg.mode === 'bus' ? breakMinutes(leg.duration_h) : 0;
+      const notes = breaks ? `Includes ${breaks} min of driver breaks.` : undefined;
+      const end = t + total;
+      if (!lunched && total >= ROAD_LUNCH_AFTER_MIN && t < LUNCH_TARGET && end > LUNCH_TARGET + ROAD_LUNCH_MIN) {
+        add('travel', LUNCH_TARGET - t, `${title} (${mode})`, { place: to, notes });
+        add('meal', ROAD_LUNCH_MIN, 'Lunch stop en route', { cost_eur: mealCost(LUNCH_SHARE) });
+        add('travel', end - LUNCH_TARGET, `${title} (continued)`, { place: to });
+        lunched = true;
+      } else {
+        add('travel', total, `${title} (${mode})`, { place: to, notes });
+      }
+    };
+
+    const placeName = () => stopPlace(here).title;
+
+    const fillVisits = (until: number) => {
+      let fillers = 0;
+      for (;;) {
+        if (!lunched && t >= LUNCH_FROM - TRANSFER_MIN && t <= LUNCH_UNTIL && Math.max(t, LUNCH_FROM) + LUNCH_MIN <= until) {
+          t = Math.max(t, LUNCH_FROM);
+          add('meal', LUNCH_MIN, `Lunch in ${placeName()}`, { place: stopPlace(here), cost_eur: mealCost(LUNCH_SHARE) });
+          lunched = true;
+          continue;
+        }
+        const pool = here >= 0 ? input.pois_by_stop[here] || [] : [];
+        const poi = pool.find(p => !used.has(p.label));
+        if (!poi && fillers >= FILLERS.length) break;
+        const begin = t + TRANSFER_MIN;
+        let length = Math.min(visitLen, until - begin);
+        // Break off before lunch rather than eating at three
+        if (!lunched && begin < LUNCH_TARGET && begin + length > LUNCH_TARGET) length = Math.max(MIN_VISIT, LUNCH_TARGET - begin);
+        if (length < MIN_VISIT || begin + length > until) break;
+        t = begin;
+        if (poi) {
+          used.add(poi.label);
+          add('visit', length, `Visit ${poi.label}`, {
+            place: { title: poi.label, lat: poi.lat, lng: poi.lng },
+            cost_eur: input.rates?.entry_fee_per_student_avg,
+            notes: poi.description
+          });
+        } else {
+          add('free', length, FILLERS[fillers++](placeName()), { place: stopPlace(here) });
+        }
+      }
+    };
+
+    if (d > 1) {
+      t = BREAKFAST;
+      add('meal', BREAKFAST_MIN, 'Breakfast at the hotel');
+      if (d === days) add('lodging', CHECK_OUT_MIN, 'Check-out');
+    }
+
+    const todays = input.legs.map((_, i) => i).filter(i => legDay(i, input.legs.length, days) === d);
+    const outbound = todays.filter(i => i !== returnIdx);
+    outbound.forEach((i, n) => {
+      // A stop passed through on the way to the next one still gets a visit if the evening allows
+      if (n > 0) {
+        const ahead = todays.slice(n).reduce((sum, j) => sum + travelMinutes(input.legs[j]), 0);
+        fillVisits(Math.min(t + TRANSFER_MIN + visitLen, (todays.includes(returnIdx) ? returnBy : LATEST_END) - ahead));
+      }
+      const leg = input.legs[i];
+      travel(leg, i === 0 ? `Departure from ${input.origin.name} to ${leg.to}` : `Travel ${leg.from} → ${leg.to}`, stopPlace(i));
+      here = i;
+      arrivedToday = true;
+    });
+
+    if (todays.includes(returnIdx)) {
+      const leg = input.legs[returnIdx];
+      const total = travelMinutes(leg);
+      let departAt = Math.max(t, returnBy - total);
+      // A lunch stop on the way home would otherwise push the arrival past return_by
+      if (total >= ROAD_LUNCH_AFTER_MIN && departAt < LUNCH_TARGET && departAt + total > LUNCH_TARGET + ROAD_LUNCH_MIN) {
+        departAt = Math.max(t, departAt - ROAD_LUNCH_MIN);
+      }
+      fillVisits(departAt);
+      t = Math.max(t, departAt);
+      travel(leg, `Return to ${input.origin.name}`, originPlace);
+      blocks.push({ start: t, end: t, kind: 'travel', title: `Arrival in ${input.origin.name}`, place: originPlace });
+    } else {
+      fillVisits(SIGHTSEEING_END);
+      if (d === 1 || arrivedToday) {
+        t = Math.max(t, CHECK_IN_FROM);
+        add('lodging', CHECK_IN_MIN, `Check-in at accommodation in ${placeName()}`, { place: stopPlace(here) });
+      }
+      t = Math.max(t, DINNER);
+      if (t + DINNER_MIN <= LATEST_END) {
+        add('meal', DINNER_MIN, `Dinner in ${placeName()}`, { place: stopPlace(here), cost_eur: mealCost(DINNER_SHARE) });
+      } else {
+        warnings.push(`Day ${d}: the group arrives too late for dinner in ${placeName()}; plan a packed meal for the journey.`);
+      }
+    }
+
+    schedule.push(capDay(blocks, d, warnings));
+  }
+  return { days: schedule, warnings };
+}
+
+export function templateItinerary(input: TemplateInput): { itinerary: ItineraryDay[]; warnings: string[] } {
+  const { days, warnings } = buildTemplateSchedule(input);
+  const itinerary = days.map((blocks, i) => ({
+    day: i + 1,
+    blocks: blocks.map(b => ({
+      start: toClock(b.start),
+      end: toClock(b.end),
+      kind: b.kind,
+      title: b.title,
+      location: b.place?.title,
+      lat: b.place?.lat,
+      lng: b.place?.lng,
+      cost_eur: b.cost_eur,
+      notes: b.notes
+    }))
+  }));
+  return { itinerary, warnings };
+}
@@ -4,6 +4,9 @@ export interface GeoLocation {
   name: string;
   source: string;
   url: string | null;
+  country?: string;
+  country_code?: string; // ISO 3166-1 alpha-2, e.g. "BA"
+  admin_region?: string;
 }
 
 export interface Poi {
@@ -12,22 +15,102 @@ export interface Poi {
   lng: number;
   url: string | null;
   source: string;
+  kinds?: string[];
+  description?: string;
+  also_from?: string[]; // Other providers that returned the same venue
+  score?: number; // Relevance to the trip's focus and grade
+  resolution?: LocationResolution; // How lat/lng were obtained; undefined means the provider supplied them
+}
+
+// 'unresolved' places have no usable coordinates and must not be mapped or routed
+export type LocationResolution = 'provider' | 'maps_uri' | 'geocoded' | 'unresolved';
+
+export interface SourceProvenance {
+  provider: string;
+  grounded: boolean; // Came from a Gemini Maps-grounded answer
+  resolution: LocationResolution;
+  maps_uri?: string;
+  also_from?: string[];
 }
 
+export type TransportMode = 'bus' | 'plane' | 'train' | 'ferry' | 'private_car';
+
 export interface TripFormState {
   origin: string;
   destinations: string[]; 
+  destination_geos: (GeoLocation | null)[]; // Locations pinned through the candidate picker, parallel to destinations
   scope: 'specific' | 'regional';
   trip_type: string;
   grade_level: string;
   num_students: number;
   teachers: string;
-  transport_pref: 'bus' | 'plane' | 'train' | 'ferry' | 'private_car' | 'mixed';
+  transport_pref: TransportMode | 'mixed';
+  leg_modes: TransportMode[]; // Mode used to reach each destination when transport_pref is 'mixed'
+  return_mode: TransportMode; // Mode used for the way home when transport_pref is 'mixed'
+  optimize_order: boolean;
+  lock_first: boolean;
+  lock_last: boolean;
   dep_date: string;
   ret_date: string;
+  return_by: string; // "HH:MM" the group should be home by on the last day
   budget: string;
-  focus: string;
+  focus: FocusTag[];
   notes: string;
+  plan_count: number; // How many alternatives to generate
+  vary: VariationAxis[]; // What differs between them
+}
+
+// Educational focus categories, see services/focusTaxonomy.ts
+export type FocusTag = 'history' | 'stem' | 'art' | 'nature' | 'religion' | 'industry' | 'language' | 'leisure';
+
+export interface RateSet {
+  bus_capacity: number;
+  bus_cost_per_km_per_bus: number;
+  bus_local_km_per_day: number;
+  flight_per_person_avg: number;
+  train_per_person_avg: number;
+  ferry_per_person_avg: number;
+  car_cost_per_km: number;
+  accommodation_per_person_per_night_budget: number;
+  accommodation_per_person_per_night_balanced: number;
+  accommodation_per_person_per_night_premium: number;
+  meals_per_person_per_day: number;
+  entry_fee_per_student_avg: number;
+  teacher_discount: number;
+  local_transport_per_person_per_day: number;
+  activity_fee_share: number; // Fraction of entry fees
+  contingency_share: number; // Fraction of the core costs
+  second_driver_per_day: number; // Wage, per diem and lodging for a second coach driver
+}
+
+export type Season = 'all' | 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface RateCard {
+  id: string;
+  name: string;
+  version: number;
+  region: string; // Country or region name, '*' applies everywhere
+  season: Season;
+  valid_from: string; // YYYY-MM-DD
+  valid_to: string | null;
+  updated_at: string;
+  rates: RateSet;
+}
+
+export interface RateCardRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export interface LegCost {
+  from: string;
+  to: string;
+  mode: TransportMode;
+  distance_km: number;
+  duration_h: number;
+  cost: number;
+  note: string;
 }
 
 export interface CostBreakdown {
@@ -43,12 +126,49 @@ export interface CostBreakdown {
   transport_note: string;
   accom_rate_per_person: number;
   accom_note: string; // New: detailed rate info
+  rate_card?: RateCardRef;
+  legs?: LegCost[]; // Per-leg transport lines for mixed-mode trips
+  second_driver?: number;
+  second_driver_note?: string;
+}
+
+export type BudgetScope = 'per_student' | 'total';
+
+export interface BudgetConstraint {
+  amount: number;
+  currency: string;
+  amount_eur: number;
+  scope: BudgetScope;
+}
+
+export interface BudgetStatus {
+  limit_eur: number;
+  scope: BudgetScope;
+  limit_per_student: number;
+  delta_per_student: number; // Positive when over budget
+  delta_total: number;
+  within_budget: boolean;
+  adjustments: string[]; // Changes applied to fit the plan into the budget
+}
+
+export type ItineraryBlockKind = 'travel' | 'visit' | 'meal' | 'lodging' | 'free';
+
+export interface ItineraryBlock {
+  start: string; // "HH:MM", 24-hour local time
+  end: string;
+  kind: ItineraryBlockKind;
+  title: string;
+  location?: string; // Title of the matching SourceLink / POI
+  lat?: number;
+  lng?: number;
+  cost_eur?: number; // Per student
+  notes?: string;
 }
 
 export interface ItineraryDay {
   day: number;
-  activity: string;
-  poi_name?: string;
+  blocks: ItineraryBlock[];
+  summary?: string; // Day-level notes, or legacy free text that could not be split into blocks
 }
 
 export interface SourceLink {
@@ -59,6 +179,53 @@ export interface SourceLink {
   description?: string;
   lat?: number;
   lng?: number;
+  provenance?: SourceProvenance;
+}
+
+export interface RouteLeg {
+  from: string;
+  to: string;
+  mode: TransportMode;
+  distance_km: number;
+  duration_h: number;
+  polyline: [number, number][];
+}
+
+export interface RouteOptimization {
+  typed_order: string[];
+  optimized_order: string[];
+  saved_km: number; // Against the typed order
+  saved_h: number;
+  source: 'ors' | 'haversine';
+}
+
+export interface DriverDayCheck {
+  day: number;
+  driving_h: number;
+  breaks_required: number;
+  break_minutes: number;
+  second_driver: boolean;
+  extended: boolean; // Uses one of the two weekly 10h extensions
+}
+
+export interface DriverCompliance {
+  days: DriverDayCheck[];
+  violations: string[];
+  second_driver_required: boolean;
+}
+
+export type PlanTier = 'budget' | 'balanced' | 'premium';
+
+// Dimensions along which the generated alternatives may differ
+export type VariationAxis = 'destination' | 'tier' | 'transport' | 'length' | 'focus';
+
+// Where a plan sits in the matrix of generated alternatives
+export interface PlanVariant {
+  destination: string;
+  tier: PlanTier;
+  transport: TransportMode | 'mixed';
+  days: number;
+  focus: FocusTag[];
 }
 
 export interface TripPlan {
@@ -66,6 +233,7 @@ export interface TripPlan {
   reliability: number;
   destination: string;
   number_of_days: number;
+  dep_date?: string; // YYYY-MM-DD of day 1; missing on plans made before it was recorded
   itinerary: ItineraryDay[];
   estimated_cost_per_student: string;
   cost_breakdown: CostBreakdown;
@@ -75,9 +243,58 @@ export interface TripPlan {
   why: string;
   sources: SourceLink[];
   polyline: [number, number][];
+  legs?: RouteLeg[];
+  route_optimization?: RouteOptimization;
+  driver_compliance?: DriverCompliance;
+  budget_status?: BudgetStatus;
+  itinerary_warnings?: string[]; // Schedule problems found by the itinerary validator
+  variant?: PlanVariant;
+  schemaVersion?: number; // Set on saved and exported plans; see services/planSchema.ts
+}
+
+export type LibraryStatus = 'draft' | 'proposed' | 'approved' | 'archived';
+
+export interface SavedPlanMeta {
+  school_year: string; // e.g. "2025/26"
+  class_name: string;
+  author: string;
+  status: LibraryStatus;
+  tags: string[];
+}
+
+// A plan kept in the saved-plan library
+export interface SavedPlanEntry {
+  id: string;
+  name: string;
+  plan: TripPlan;
+  meta: SavedPlanMeta;
+  session?: PlanningSession; // Set for saved projects; `plan` is then the chosen (or first) plan
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProgressStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+// One step of plan generation; a step is reported again with the same id when its status changes
+export interface ProgressEvent {
+  id: string;
+  label: string;
+  status: ProgressStatus;
+  detail?: string;
 }
 
 export interface PlannerResult {
   plans: TripPlan[];
   origin: GeoLocation | null;
+}
+
+// Everything needed to bring back a planning screen: the inputs, the results and what was picked
+export interface PlanningSession {
+  form: TripFormState;
+  result: PlannerResult | null;
+  chosen_plan: number | null;
+  focused_plan: number | null;
+  plan_filter: Partial<Record<VariationAxis, string>>;
+  compare_set: number[];
+  show_compare: boolean;
 }
\ No newline at end of file
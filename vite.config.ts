@@ -6,19 +6,36 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, process.cwd(), '');
 
+  // In proxy mode the third-party keys stay on the server and are left out of the bundle
+  const proxied = env.VITE_API_MODE === 'proxy';
+  const secret = (value: string | undefined) => JSON.stringify(proxied ? '' : value || '');
+
   return {
     plugins: [react()],
     // Base path is important for Vercel deployment structure
     base: './', 
+    server: {
+      // `npm run proxy` listens here; the dev server forwards /api so the browser stays same-origin
+      proxy: { '/api': `http://localhost:${env.PROXY_PORT || 8787}` }
+    },
     define: {
       // Explicitly replace these variables with their string values during build
       // The JSON.stringify is crucial because Vite expects the value to be a code snippet string
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY || env.API_KEY || ''),
-      'process.env.VITE_GEMINI_API_KEYS': JSON.stringify(env.VITE_GEMINI_API_KEYS || ''),
+      'process.env.API_KEY': secret(env.VITE_API_KEY || env.API_KEY),
+      'process.env.VITE_GEMINI_API_KEYS': secret(env.VITE_GEMINI_API_KEYS),
+      'process.env.VITE_ORS_KEY': secret(env.VITE_ORS_KEY),
+      'process.env.VITE_OPENTRIPMAP_KEY': secret(env.VITE_OPENTRIPMAP_KEY),
+      'process.env.VITE_GEONAMES_USER': secret(env.VITE_GEONAMES_USER),
+      'process.env.VITE_API_MODE': JSON.stringify(env.VITE_API_MODE || 'direct'),
+      'process.env.VITE_PROXY_URL': JSON.stringify(env.VITE_PROXY_URL || '/api'),
+      'process.env.VITE_LLM_PROVIDER': JSON.stringify(env.VITE_LLM_PROVIDER || ''),
+      'process.env.VITE_LLM_MODEL': JSON.stringify(env.VITE_LLM_MODEL || ''),
+      'process.env.VITE_LLM_BASE_URL': JSON.stringify(env.VITE_LLM_BASE_URL || ''),
+      'process.env.VITE_LLM_API_KEY': JSON.stringify(env.VITE_LLM_API_KEY || ''),
       
       // Fallback for any other process.env access (safety net)
       // This combined with the index.html script ensures robustness
       'process.env': JSON.stringify({}), 
     },
   };
-});
\ No newline at end of file
+});